@@ -0,0 +1,8 @@
+// app/api/avalanche/risk/route.ts — NRI AVLN (AVLN_RISKR / AVLN_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("AVLN");
+export const POST = nriPolygonHandler("AVLN");
@@ -0,0 +1,8 @@
+// app/api/coastalflood/risk/route.ts — NRI CFLD (CFLD_RISKR / CFLD_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("CFLD");
+export const POST = nriPolygonHandler("CFLD");
@@ -0,0 +1,41 @@
+// app/api/corridor/route.ts — POST LineString → tronçons (chaînage, zone NFHL, niveaux NRI) + longueurs par niveau
+import { NextRequest } from "next/server";
+import { analyzeCorridor, lineFromRequest } from "@/lib/corridor";
+import { NRI_HAZARDS, type NriCode } from "@/lib/nri";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const preferredRegion = ["iad1", "cle1", "pdx1"];
+
+export async function POST(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  // ?hazards=HAIL,TRND (codes NRI) — par défaut tous
+  const wanted = (u.searchParams.get("hazards") || "").split(",").map(s => s.trim().toUpperCase()).filter(Boolean);
+  const unknown = wanted.filter(c => !(c in NRI_HAZARDS));
+  if (unknown.length) {
+    return Response.json({ error: `Unknown NRI hazard code(s): ${unknown.join(", ")}` }, { status: 400 });
+  }
+  const codes = (wanted.length ? wanted : Object.keys(NRI_HAZARDS)) as NriCode[];
+
+  const ln = await lineFromRequest(req);
+  if (ln.error) return ln.error;
+
+  const res = await analyzeCorridor(ln.line.coords, codes);
+  const body: any = {
+    lengthM: res.summary.lengthM,
+    segments: res.segments,
+    summary: res.summary,
+    hazards: Object.fromEntries(codes.map(c => [c, NRI_HAZARDS[c]])),
+    provider: "FEMA NFHL (S_FLD_HAZ_AR) + FEMA National Risk Index",
+  };
+  if (res.floodError) body.floodError = res.floodError;
+  body.truncated = res.truncated.flood || res.truncated.nri;
+  if (body.truncated) {
+    body.truncatedNote = `Record limit reached along the line (${[res.truncated.flood && "NFHL flood zones", res.truncated.nri && "NRI units"]
+      .filter(Boolean).join(", ")}): some segments may be reported as Unmapped or classified by a midpoint lookup`;
+  }
+  if (debug) body.debug = res.debug;
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
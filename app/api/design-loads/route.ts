@@ -0,0 +1,41 @@
+// app/api/design-loads/route.ts — vent / neige / givre ASCE 7 au site (service compatible ATC Hazards by Location)
+import { NextRequest } from "next/server";
+import { LOAD_EDITIONS, RISK_CATEGORIES, designLoads, type LoadEdition, type RiskCategory } from "@/lib/design-loads";
+import { pointFromRequest } from "@/lib/geocode";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function json(h: Record<string, string> = {}) {
+  return { "content-type": "application/json", "access-control-allow-origin": "*", ...h };
+}
+
+export async function GET(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  // edition asce7-22 (défaut) / asce7-16 / asce7-10 ; riskCategory I–IV (défaut II)
+  const edition = (u.searchParams.get("edition") || "asce7-22").toLowerCase();
+  const riskCategory = (u.searchParams.get("riskCategory") || "II").toUpperCase();
+  if (!(edition in LOAD_EDITIONS)) {
+    return new Response(JSON.stringify({ error: `edition must be one of ${Object.keys(LOAD_EDITIONS).join(", ")}` }), { status: 400, headers: json() });
+  }
+  if (!(RISK_CATEGORIES as readonly string[]).includes(riskCategory)) {
+    return new Response(JSON.stringify({ error: `riskCategory must be one of ${RISK_CATEGORIES.join(", ")}` }), { status: 400, headers: json() });
+  }
+
+  // lat/lon ou address=
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+
+  const { loads, urls } = await designLoads(pt.lat, pt.lon, edition as LoadEdition, riskCategory as RiskCategory);
+  if (!loads.wind && !loads.snow && !loads.ice) {
+    const body: any = { error: "No design loads returned", errors: loads.errors };
+    if (debug) body.debug = { geocode: pt.geocode ?? null, urls };
+    return new Response(JSON.stringify(body), { status: 502, headers: json() });
+  }
+
+  const body: any = { ...loads };
+  if (debug) body.debug = { geocode: pt.geocode ?? null, urls };
+  return new Response(JSON.stringify(body), { headers: json({ "cache-control": "no-store" }) });
+}
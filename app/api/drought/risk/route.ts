@@ -0,0 +1,8 @@
+// app/api/drought/risk/route.ts — NRI DRGT (DRGT_RISKR / DRGT_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("DRGT");
+export const POST = nriPolygonHandler("DRGT");
@@ -1,3 +1,10 @@
+import { NextRequest } from "next/server";
+import { compass8, nearestOnPaths } from "@/lib/geo";
+import { pointFromRequest } from "@/lib/geocode";
+import { adminNames, extractHazard, lookupNri, nriSource } from "@/lib/nri";
+import { historyOptions, quakeHistory } from "@/lib/quakes";
+import type { RiskLevel } from "@/lib/risk";
+
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
@@ -7,8 +14,6 @@ function json(h: Record<string, string> = {}) {
 
 const UA = process.env.EQ_USER_AGENT || "HydrauRiskChecker/1.0 (+server)";
 
-type RiskLevel = "Very Low" | "Low" | "Moderate" | "High" | "Very High";
-
 function levelFromSDC(sdc: string): RiskLevel {
   const x = String(sdc || "").toUpperCase();
   if (x === "A") return "Very Low";
@@ -18,12 +23,58 @@ function levelFromSDC(sdc: string): RiskLevel {
   return "Very High"; // E ou F
 }
 
-async function callUSGS(lat: number, lon: number, edition: "asce7-22" | "asce7-16", siteClass: string) {
+/** Entrées acceptées par les services ASCE 7-16 / 7-22 */
+const RISK_CATEGORIES = ["I", "II", "III", "IV"] as const;
+const SITE_CLASSES = ["A", "B", "BC", "C", "CD", "D", "DE", "E", "Default"] as const;
+const ONLY_7_22 = new Set(["BC", "CD", "DE"]); // classes intermédiaires introduites par ASCE 7-22
+
+type Spectrum = Array<[number, number]>; // [période (s), Sa (g)]
+
+/** {periods, ordinates} (7-22) ou [[T, Sa], …] (7-16) → [[T, Sa], …] */
+function toSpectrum(v: any): Spectrum | null {
+  if (Array.isArray(v?.periods) && Array.isArray(v?.ordinates)) {
+    return v.periods.map((t: any, i: number) => [Number(t), Number(v.ordinates[i])] as [number, number])
+      .filter(([t, sa]: [number, number]) => Number.isFinite(t) && Number.isFinite(sa));
+  }
+  if (Array.isArray(v) && v.every((p: any) => Array.isArray(p) && p.length >= 2)) {
+    return v.map((p: any) => [Number(p[0]), Number(p[1])] as [number, number]);
+  }
+  return null;
+}
+
+const num = (v: any) => (v == null || v === "" || !Number.isFinite(Number(v)) ? null : Number(v));
+
+/** Jeu de paramètres complet (les champs absents d'une édition restent null). */
+function parameters(d: any) {
+  const u = d?.underlyingData ?? {};
+  return {
+    ss: num(d?.ss ?? u.ss), s1: num(d?.s1 ?? u.s1),
+    fa: num(d?.fa), fv: num(d?.fv),
+    sms: num(d?.sms), sm1: num(d?.sm1),
+    sds: num(d?.sds), sd1: num(d?.sd1),
+    pga: num(d?.pga ?? u.pga), pgam: num(d?.pgam), fpga: num(d?.fpga),
+    t0: num(d?.t0), ts: num(d?.ts), tl: num(d?.tl ?? d?.["t-sub-l"]), cv: num(d?.cv),
+    sdc: d?.sdc ?? null,
+  };
+}
+
+function spectra(d: any) {
+  const multiDesign = toSpectrum(d?.multiPeriodDesignSpectrum);
+  return {
+    twoPeriod: {
+      design: toSpectrum(d?.twoPeriodDesignSpectrum ?? d?.sdSpectrum),
+      mcer: toSpectrum(d?.twoPeriodMCErSpectrum ?? d?.smSpectrum),
+    },
+    multiPeriod: multiDesign ? { design: multiDesign, mcer: toSpectrum(d?.multiPeriodMCErSpectrum) } : null,
+  };
+}
+
+async function callUSGS(lat: number, lon: number, edition: "asce7-22" | "asce7-16", siteClass: string, riskCategory: string) {
   const endpoint = `https://earthquake.usgs.gov/ws/designmaps/${edition}.json`;
   const qs = new URLSearchParams({
     latitude: String(lat),
     longitude: String(lon),
-    riskCategory: "I",
+    riskCategory,
     siteClass,
     title: "HydrauRisk",
   });
@@ -36,17 +87,16 @@ async function callUSGS(lat: number, lon: number, edition: "asce7-22" | "asce7-1
   try { body = JSON.parse(bodyText); } catch {}
 
   const d = body?.data ?? body?.response?.data ?? null;
-  const sdc = d?.sdc ?? null;
-  const sds = d?.sds ?? null;
-  const sd1 = d?.sd1 ?? null;
-  const pgam = d?.pgam ?? null;
+  const params = parameters(d);
 
   return {
     ok: r.ok,
     status: r.status,
     edition,
     siteClass,
-    sdc, sds, sd1, pgam,
+    sdc: params.sdc, sds: params.sds, sd1: params.sd1, pgam: params.pgam,
+    params,
+    spectra: spectra(d),
     debug: {
       hasData: !!d,
       keys: d ? Object.keys(d).slice(0, 10) : [],
@@ -55,40 +105,141 @@ async function callUSGS(lat: number, lon: number, edition: "asce7-22" | "asce7-1
   };
 }
 
-export async function GET(req: Request) {
+// ---------- Failles quaternaires (USGS Qfaults) ----------
+// Couche lignes Qfaults (MapServer/FeatureServer) — remplaçable via la VAR d’env
+const QFAULTS_URL = (process.env.QFAULTS_URL ||
+  "https://earthquake.usgs.gov/arcgis/rest/services/haz/Qfaults/MapServer/21"
+).replace(/\/+$/, "");
+const QFAULT_RADII_KM = [10, 50, 200];
+const QFAULT_PAGE_SIZE = 500;
+const QFAULT_MAX_PAGES = 5;
+
+/** Premier attribut non vide parmi des noms candidats (schémas Qfaults variables selon la diffusion). */
+function attr(a: Record<string, any>, names: string[]): string | null {
+  const keys = Object.keys(a);
+  for (const n of names) {
+    const k = keys.find(k => k.toLowerCase() === n);
+    if (k && a[k] != null && String(a[k]).trim() !== "") return String(a[k]).trim();
+  }
+  return null;
+}
+
+/** Faille cartographiée la plus proche : recherche par rayons croissants, distance géodésique à la ligne.
+ *  `truncated` : limite du service encore atteinte après pagination → une faille plus proche peut manquer. */
+async function nearestQfault(lat: number, lon: number) {
+  const tries: any[] = [];
+  for (const km of QFAULT_RADII_KM) {
+    // pagination (resultOffset) : en zone dense (Californie côtière), la première page peut omettre la plus proche
+    const feats: any[] = [];
+    let exceeded = false;
+    for (let page = 0; page < QFAULT_MAX_PAGES; page++) {
+      const qs = new URLSearchParams({
+        f: "json",
+        where: "1=1",
+        geometry: JSON.stringify({ x: lon, y: lat, spatialReference: { wkid: 4326 } }),
+        geometryType: "esriGeometryPoint",
+        inSR: "4326",
+        outSR: "4326",
+        spatialRel: "esriSpatialRelIntersects",
+        distance: String(km * 1000),
+        units: "esriSRUnit_Meter",
+        returnGeometry: "true",
+        geometryPrecision: "5",
+        maxAllowableOffset: "0.0005",
+        resultOffset: String(page * QFAULT_PAGE_SIZE),
+        resultRecordCount: String(QFAULT_PAGE_SIZE),
+        outFields: "*",
+      });
+      const url = `${QFAULTS_URL}/query?${qs}`;
+      const r = await fetch(url, { headers: { accept: "application/json", "user-agent": UA }, cache: "no-store" });
+      const j: any = await r.json().catch(() => null);
+      const got: any[] = j?.features ?? [];
+      tries.push({ radiusKm: km, page, url, status: r.status, err: j?.error?.message ?? null, count: got.length, exceeded: !!j?.exceededTransferLimit });
+      if (!r.ok || !j || j.error) return { fault: null, tries, error: j?.error?.message || `Qfaults ${r.status}` };
+      feats.push(...got);
+      exceeded = !!j.exceededTransferLimit;
+      if (!exceeded || !got.length) break;
+    }
+    if (!feats.length) continue;
+
+    let best: { f: any; near: NonNullable<ReturnType<typeof nearestOnPaths>> } | null = null;
+    for (const f of feats) {
+      const near = nearestOnPaths(lon, lat, f?.geometry?.paths ?? []);
+      if (near && (!best || near.distanceM < best.near.distanceM)) best = { f, near };
+    }
+    if (!best) continue;
+
+    const a = best.f.attributes ?? {};
+    return {
+      fault: {
+        name: attr(a, ["fault_name", "faultname", "name"]),
+        section: attr(a, ["section_name", "sec_name", "sectionname"]),
+        slipRate: attr(a, ["slip_rate", "sliprate", "slip_rate_category"]),
+        age: attr(a, ["age", "age_of_deformation", "faultage"]),
+        slipSense: attr(a, ["slip_sense", "slipsense"]),
+        distanceKm: Math.round(best.near.distanceM / 100) / 10,
+        bearing: Math.round(best.near.bearing),
+        direction: compass8(best.near.bearing),
+      },
+      truncated: exceeded,
+      searchedKm: km,
+      tries,
+    };
+  }
+  return { fault: null, truncated: false, tries, searchedKm: QFAULT_RADII_KM.at(-1) };
+}
+
+export async function GET(req: NextRequest) {
   const u = new URL(req.url);
-  const lat = Number(u.searchParams.get("lat"));
-  const lon = Number(u.searchParams.get("lon"));
   const debug = u.searchParams.get("debug") === "1";
 
-  if (!Number.isFinite(lat) || !Number.isFinite(lon)) {
-    return new Response(JSON.stringify({ error: "lat & lon required" }), { status: 400, headers: json() });
+  // riskCategory I–IV (défaut II, bâtiments courants) ; siteClass imposée ou D → Default
+  const riskCategory = (u.searchParams.get("riskCategory") || "II").toUpperCase();
+  const rawSite = u.searchParams.get("siteClass");
+  const siteClass = rawSite ? SITE_CLASSES.find(c => c.toUpperCase() === rawSite.toUpperCase()) : undefined;
+  if (!(RISK_CATEGORIES as readonly string[]).includes(riskCategory)) {
+    return new Response(JSON.stringify({ error: `riskCategory must be one of ${RISK_CATEGORIES.join(", ")}` }), { status: 400, headers: json() });
   }
+  if (rawSite && !siteClass) {
+    return new Response(JSON.stringify({ error: `siteClass must be one of ${SITE_CLASSES.join(", ")}` }), { status: 400, headers: json() });
+  }
+
+  // lat/lon ou address= (+ GEOID tract/county pour le NRI)
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+  const { lat, lon, geoids } = pt;
+
+  // NRI ERQK + historique FDSN en parallèle des appels USGS (tract → county)
+  const nriP = lookupNri(lon, lat, geoids).catch(() => null);
+  const faultP = nearestQfault(lat, lon).catch((e: any) => ({ fault: null, tries: [], error: String(e?.message || e) }));
+  const historyP = quakeHistory(lon, lat, historyOptions(u.searchParams.get("historyRadiusKm"), u.searchParams.get("historyYears")));
 
+  const classes = siteClass ? [siteClass] : ["D", "Default"];
   const tries: Array<{edition: "asce7-22"|"asce7-16"; siteClass: string}> = [
-    { edition: "asce7-22", siteClass: "D" },
-    { edition: "asce7-22", siteClass: "Default" },
-    { edition: "asce7-16", siteClass: "D" },
-    { edition: "asce7-16", siteClass: "Default" },
+    ...classes.map(c => ({ edition: "asce7-22" as const, siteClass: c })),
+    ...classes.filter(c => !ONLY_7_22.has(c)).map(c => ({ edition: "asce7-16" as const, siteClass: c })),
   ];
 
   const attempts: any[] = [];
+  let code: any = null;
   for (const t of tries) {
     try {
-      const res = await callUSGS(lat, lon, t.edition, t.siteClass);
+      const res = await callUSGS(lat, lon, t.edition, t.siteClass, riskCategory);
       attempts.push(res);
       if (res.ok && res.sdc) {
-        const level = levelFromSDC(res.sdc);
-        return new Response(JSON.stringify({
-          level,
+        code = {
+          level: levelFromSDC(res.sdc),
           sdc: res.sdc,
           sds: res.sds,
           sd1: res.sd1,
           pgam: res.pgam,
           edition: t.edition.toUpperCase(),
           siteClass: t.siteClass,
-          note: "USGS Design Maps (ASCE), Risk Category I",
-        }), { headers: json() });
+          riskCategory,
+          parameters: res.params,
+          spectra: res.spectra,
+        };
+        break;
       }
     } catch (e: any) {
       attempts.push({ edition: t.edition, siteClass: t.siteClass, error: String(e?.message || e) });
@@ -104,9 +255,52 @@ export async function GET(req: Request) {
     dbg: a.debug || a.error || null,
   }));
 
-  const body = debug
-    ? { error: "No SDC returned from USGS after fallbacks.", attempts: diag }
-    : { error: "No SDC returned from USGS" };
+  const [lookup, hist, qf] = await Promise.all([nriP, historyP, faultP]);
+  let nri: any = null;
+  if (lookup?.unit && lookup.attrs) {
+    const out = extractHazard(lookup.attrs, "ERQK");
+    nri = {
+      level: out.level, label: out.label, score: out.score,
+      adminUnit: lookup.unit, ...adminNames(lookup.attrs),
+      provider: `FEMA National Risk Index (${lookup.unit})`,
+      ...(await nriSource(lookup)),
+    };
+  }
+  const nriRated = nri && nri.level !== "Undetermined" && nri.level !== "Not Applicable";
 
-  return new Response(JSON.stringify(body), { status: 502, headers: json() });
+  if (!code && !nri) {
+    const body = debug
+      ? { error: "No SDC returned from USGS after fallbacks.", attempts: diag }
+      : { error: "No SDC returned from USGS" };
+    return new Response(JSON.stringify(body), { status: 502, headers: json() });
+  }
+
+  // Le niveau affiché suit le risque relatif NRI (comme les autres cartes) ; la SDC traduit des exigences de calcul.
+  // Sans note NRI exploitable, la SDC reprend la main.
+  const drivenBy: "nri" | "code" = nriRated || !code ? "nri" : "code";
+  const level: RiskLevel = drivenBy === "nri" ? nri.level : code.level;
+
+  // champs USGS détaillés à plat (contrat existant) ; les deux évaluations résumées dans code / nri
+  const body: any = {
+    ...(code ?? {}),
+    level,
+    drivenBy,
+    code: code && { level: code.level, sdc: code.sdc, edition: code.edition, siteClass: code.siteClass, riskCategory },
+    nri,
+    history: hist.history,
+    nearestFault: qf.fault,
+    note: code
+      ? `USGS Design Maps (ASCE), Risk Category ${riskCategory}${nri ? " + FEMA NRI" : ""}`
+      : "FEMA NRI (USGS Design Maps unavailable)",
+  };
+  if (!code) body.codeError = "No SDC returned from USGS";
+  if (hist.error) body.historyError = hist.error;
+  if ("error" in qf && qf.error) body.faultError = qf.error;
+  else if (!qf.fault) body.faultNote = `No mapped Quaternary fault within ${QFAULT_RADII_KM.at(-1)} km`;
+  else if ("truncated" in qf && qf.truncated) {
+    body.faultTruncated = true;
+    body.faultNote = `Qfaults record limit reached within ${qf.searchedKm} km: a closer fault may be missing`;
+  }
+  if (debug) { body.attempts = diag; body.historyUrl = hist.url; body.faultTries = qf.tries; }
+  return new Response(JSON.stringify(body), { headers: json() });
 }
@@ -1,3 +1,5 @@
+import { nfhlCatalog } from "@/lib/nfhl";
+
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 export const preferredRegion = ["iad1", "cle1", "pdx1"];
@@ -7,15 +9,21 @@ function json(h: Record<string, string> = {}) {
 }
 
 export async function GET() {
-  const base = (process.env.NFHL_BASE ||
-    "https://hazards.fema.gov/gis/nfhl/rest/services/public/NFHL"
-  ).replace(/\/+$/, "");
+  // même base et même catalogue (caché) que les routes flood
+  const catalog = await nfhlCatalog();
+  const zones = catalog.wellKnown.floodZones;
 
   return new Response(JSON.stringify({
-    base,
-    layerId: 28,
-    name: "Flood Hazard Zones",
-    serviceUrl: `${base}/MapServer/28`,
-    _mode: "hardcoded-28",
+    base: catalog.base,
+    layerId: zones.id,
+    name: zones.name ?? "Flood Hazard Zones",
+    serviceUrl: `${catalog.base}/MapServer/${zones.id}`,
+    _mode: zones.discovered ? "discovered" : "fallback",
+    fetchedAt: catalog.fetchedAt,
+    wellKnown: Object.fromEntries(
+      Object.entries(catalog.wellKnown).map(([k, v]) => [k, { ...v, serviceUrl: `${catalog.base}/MapServer/${v.id}` }]),
+    ),
+    layers: catalog.layers,
+    ...(catalog.error ? { error: catalog.error } : {}),
   }), { headers: json() });
 }
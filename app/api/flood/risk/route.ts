@@ -0,0 +1,105 @@
+// app/api/flood/risk/route.ts — zone NFHL classée côté serveur (même contrat que les autres aléas)
+import { NextRequest } from "next/server";
+import { classifyFlood, estimateFreeboard } from "@/lib/flood";
+import { groundElevation } from "@/lib/elevation";
+import { pointFromRequest } from "@/lib/geocode";
+import {
+  queryAmendments, queryBfeFromLines, queryFirmInfo, queryFloodZoneShares, queryFloodZones, queryNearestSfha,
+} from "@/lib/nfhl";
+import { polygonFromRequest } from "@/lib/polygon";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+export const preferredRegion = ["iad1", "cle1", "pdx1"];
+
+export async function GET(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  // lat/lon ou address=
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+
+  // zones + panneau FIRM / communauté + LOMR/LOMA en parallèle (seules les zones sont bloquantes)
+  const [{ data, tries, layerId, error }, firmRes, amendRes] = await Promise.all([
+    queryFloodZones(pt.lon, pt.lat),
+    queryFirmInfo(pt.lon, pt.lat).catch((e: any) => ({ firm: null, tries: [{ step: "firm", err: e?.message }] })),
+    queryAmendments(pt.lon, pt.lat).catch((e: any) => ({ amendments: [], tries: [{ step: "amendments", err: e?.message }] })),
+  ]);
+  if (error) {
+    const res: any = { error: error.message };
+    if (debug) res.debug = { geocode: pt.geocode ?? null, tries, layerId, details: error.details };
+    return Response.json(res, { status: 502, headers: { "cache-control": "no-store" } });
+  }
+
+  const flood = classifyFlood(data.features);
+
+  // Hors SFHA : à quelle distance est la zone A/V (et X ombrée) la plus proche ?
+  // En SFHA : altitude du sol vs BFE (statique, sinon interpolée sur S_BFE)
+  const [nearest, ground, lines] = await Promise.all([
+    flood.sfha
+      ? null
+      : queryNearestSfha(pt.lon, pt.lat, layerId)
+          .catch((e: any) => ({ sfha: null, shadedX: null, searchedM: 0, truncated: false, tries: [{ step: "nearest", err: e?.message }] })),
+    flood.sfha ? groundElevation(pt.lon, pt.lat) : null,
+    flood.sfha && flood.bfe == null && flood.depth == null
+      ? queryBfeFromLines(pt.lon, pt.lat).catch((e: any) => ({ bfe: null, tries: [{ step: "bfe-lines", err: e?.message }] }))
+      : null,
+  ]);
+  const freeboard = flood.sfha ? estimateFreeboard(flood, ground?.elev ?? null, lines?.bfe ?? null) : null;
+
+  const body: any = {
+    ...flood,
+    firm: firmRes.firm,
+    amendments: amendRes.amendments,
+    amended: amendRes.amendments.length > 0,
+    nearestSfha: nearest?.sfha ?? null,
+    nearestShadedX: nearest?.shadedX ?? null,
+    nearestSearchedM: nearest?.searchedM ?? null,
+    nearestTruncated: nearest?.truncated ?? false,
+    freeboard,
+    provider: "FEMA NFHL (S_FLD_HAZ_AR)",
+  };
+  if (nearest?.truncated) {
+    body.nearestNote = `NFHL record limit reached within ${nearest.searchedM} m: the nearest SFHA may be closer than reported`;
+  }
+  if (debug) body.debug = {
+    geocode: pt.geocode ?? null, tries, layerId,
+    firmTries: firmRes.tries, amendmentTries: amendRes.tries, nearestTries: nearest?.tries ?? null,
+    elevation: ground, bfeLines: lines, features: data.features,
+  };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
+
+/** POST GeoJSON Polygon / MultiPolygon (parcelle, emprise) → % de surface par zone NFHL. */
+export async function POST(req: NextRequest) {
+  const debug = new URL(req.url).searchParams.get("debug") === "1";
+
+  const pg = await polygonFromRequest(req);
+  if (pg.error) return pg.error;
+  const { parcel } = pg;
+
+  const res = await queryFloodZoneShares(parcel);
+  if (res.error) {
+    const out: any = { error: res.error };
+    if (debug) out.debug = { url: res.url, layerId: res.layerId };
+    return Response.json(out, { status: 502, headers: { "cache-control": "no-store" } });
+  }
+
+  // niveau global = zone la plus sévère présente sur la parcelle
+  const worst = classifyFlood(res.features.map(f => ({ attributes: f.attributes })));
+  const pct = (pred: (z: (typeof res.zones)[number]) => boolean) =>
+    Math.round(res.zones.filter(pred).reduce((s, z) => s + z.percent, 0) * 10) / 10;
+
+  const body: any = {
+    ...worst,
+    input: "polygon",
+    areaM2: Math.round(parcel.areaM2),
+    zones: res.zones,
+    sfhaPercent: pct(z => z.sfha),
+    floodwayPercent: pct(z => z.floodway),
+    provider: "FEMA NFHL (S_FLD_HAZ_AR)",
+  };
+  if (debug) body.debug = { url: res.url, layerId: res.layerId, samples: res.samples, exceeded: res.exceeded, vertices: parcel.vertices };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
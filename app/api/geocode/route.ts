@@ -13,6 +13,23 @@ const NOMINATIM_UA =
 
 type Parsed = { street: string; city?: string; state?: string; zip?: string };
 
+/** Géographies 2020 (NRI = tracts 2020) pour chaque benchmark */
+const VINTAGE: Record<string, string> = {
+  Public_AR_Census2020: "Census2020_Census2020",
+  Public_AR_Current: "Census2020_Current",
+};
+
+/** GEOID tract (11) / county (5) d’un match Census "geographies" */
+function geoidsFromMatch(m: any) {
+  const g = m?.geographies ?? {};
+  const tract = g["Census Tracts"]?.[0]?.GEOID ?? null;
+  const county = g["Counties"]?.[0]?.GEOID ?? (tract ? String(tract).slice(0, 5) : null);
+  return {
+    tractGeoid: tract == null ? null : String(tract),
+    countyGeoid: county == null ? null : String(county),
+  };
+}
+
 /** Parse "195 Center St, Marysvale, UT 84750" (zip optionnel) */
 function parseUS(addr: string): Parsed | null {
   const rx = /^\s*(.+?)\s*,\s*([A-Za-z .'-]+?)\s*,\s*([A-Z]{2})(?:\s+(\d{5})(?:-\d{4})?)?\s*$/;
@@ -24,18 +41,19 @@ function parseUS(addr: string): Parsed | null {
   return null;
 }
 
-/** Census (structured) — adresse stricte */
+/** Census (structured) — adresse stricte + GEOID tract/county (endpoint geographies) */
 async function censusStructured(p: Parsed, benchmark: string, attempts: any[]) {
   const params = new URLSearchParams({
     street: p.street,
     format: "json",
     benchmark,
+    vintage: VINTAGE[benchmark],
   });
   if (p.city) params.set("city", p.city);
   if (p.state) params.set("state", p.state);
   if (p.zip) params.set("zip", p.zip);
 
-  const url = `https://geocoding.geo.census.gov/geocoder/locations/address?${params.toString()}`;
+  const url = `https://geocoding.geo.census.gov/geocoder/geographies/address?${params.toString()}`;
   const r = await fetch(url, { cache: "no-store" });
   const j: any = await r.json().catch(() => null);
   const matches = j?.result?.addressMatches ?? [];
@@ -51,6 +69,7 @@ async function censusStructured(p: Parsed, benchmark: string, attempts: any[]) {
         benchmark,
         mode: "address",
         precision: "address",
+        ...geoidsFromMatch(m),
       });
     }
   }
@@ -59,8 +78,8 @@ async function censusStructured(p: Parsed, benchmark: string, attempts: any[]) {
 
 /** Census (oneline) — un peu plus permissif, toujours “adresse” si trouvé */
 async function censusOneLine(address: string, benchmark: string, attempts: any[]) {
-  const params = new URLSearchParams({ address, format: "json", benchmark });
-  const url = `https://geocoding.geo.census.gov/geocoder/locations/onelineaddress?${params.toString()}`;
+  const params = new URLSearchParams({ address, format: "json", benchmark, vintage: VINTAGE[benchmark] });
+  const url = `https://geocoding.geo.census.gov/geocoder/geographies/onelineaddress?${params.toString()}`;
   const r = await fetch(url, { cache: "no-store" });
   const j: any = await r.json().catch(() => null);
   const matches = j?.result?.addressMatches ?? [];
@@ -76,6 +95,7 @@ async function censusOneLine(address: string, benchmark: string, attempts: any[]
         benchmark,
         mode: "address",
         precision: "address",
+        ...geoidsFromMatch(m),
       });
     }
   }
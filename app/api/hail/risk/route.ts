@@ -0,0 +1,8 @@
+// app/api/hail/risk/route.ts — NRI HAIL (HAIL_RISKR / HAIL_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("HAIL");
+export const POST = nriPolygonHandler("HAIL");
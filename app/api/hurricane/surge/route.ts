@@ -0,0 +1,38 @@
+// app/api/hurricane/surge/route.ts — hauteur de submersion marine Cat 1–5 au point (SLOSH MOM) + zone NFHL côtière
+import { NextRequest } from "next/server";
+import { classifyFlood } from "@/lib/flood";
+import { pointFromRequest } from "@/lib/geocode";
+import { queryFloodZones } from "@/lib/nfhl";
+import { stormSurge } from "@/lib/surge";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  // lat/lon ou address=
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+
+  // rasters MOM + zone NFHL (V/VE = vagues côtières) en parallèle ; la zone n’est qu’un contexte
+  const [{ surge, urls }, zones] = await Promise.all([
+    stormSurge(pt.lon, pt.lat),
+    queryFloodZones(pt.lon, pt.lat).catch(() => null),
+  ]);
+  if (!surge) {
+    const res: any = { error: "Storm surge service unavailable" };
+    if (debug) res.debug = { geocode: pt.geocode ?? null, urls };
+    return Response.json(res, { status: 502, headers: { "cache-control": "no-store" } });
+  }
+
+  const flood = zones && !zones.error ? classifyFlood(zones.data.features) : null;
+  const body: any = {
+    ...surge,
+    floodZone: flood && { zone: flood.zone, coastal: flood.zone.startsWith("V"), level: flood.level },
+    provider: surge.source,
+  };
+  if (debug) body.debug = { geocode: pt.geocode ?? null, urls, floodTries: zones?.tries ?? null };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
@@ -0,0 +1,8 @@
+// app/api/icestorm/risk/route.ts — NRI ISTM (ISTM_RISKR / ISTM_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("ISTM");
+export const POST = nriPolygonHandler("ISTM");
@@ -0,0 +1,8 @@
+// app/api/lightning/risk/route.ts — NRI LTNG (LTNG_RISKR / LTNG_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("LTNG");
+export const POST = nriPolygonHandler("LTNG");
@@ -0,0 +1,34 @@
+// app/api/nri/profile/route.ts — profil NRI composite (indice global, EAL, SOVI, RESL)
+import { NextRequest } from "next/server";
+import { pointFromRequest } from "@/lib/geocode";
+import { adminNames, extractProfile, lookupNri, nriSource } from "@/lib/nri";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+
+  // Même record que les routes par aléa (cache partagé)
+  const nri = await lookupNri(pt.lon, pt.lat, pt.geoids);
+  if (!nri.unit || !nri.attrs) {
+    const res: any = { error: "No tract/county polygon found.", provider: "FEMA NRI" };
+    if (debug) res.debug = { geocode: pt.geocode ?? null, steps: nri.steps };
+    return Response.json(res, { status: 404, headers: { "cache-control": "no-store" } });
+  }
+
+  const { profile, usedFields } = extractProfile(nri.attrs);
+  const body: any = {
+    ...profile,
+    adminUnit: nri.unit,
+    ...adminNames(nri.attrs),
+    provider: `FEMA National Risk Index (${nri.unit})`,
+    ...(await nriSource(nri)),
+  };
+  if (debug) body.debug = { geocode: pt.geocode ?? null, steps: nri.steps, usedFields };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
@@ -0,0 +1,221 @@
+// app/api/risk/route.ts — un seul appel : géocode + tous les aléas
+import { NextRequest } from "next/server";
+import type { DesignLoads } from "@/lib/design-loads";
+import type { SeaLevelRise } from "@/lib/slr";
+import type { StormSurge } from "@/lib/surge";
+import {
+  HAZARDS,
+  type GeocodeResult, type HazardDef, type HazardKey, type HazardResult, type ProfileResult, type RiskLevel, type RiskReport,
+} from "@/lib/risk";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+/** Géocode interne via /api/geocode (même domaine) */
+async function geocodeFromAddress(origin: string, address: string): Promise<GeocodeResult> {
+  const url = `${origin}/api/geocode?address=${encodeURIComponent(address)}`;
+  const r = await fetch(url, { cache: "no-store" });
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok) throw new Error(j?.error || `geocode failed: ${r.status}`);
+  if (!j || typeof j.lat !== "number" || typeof j.lon !== "number") {
+    throw new Error("geocode returned invalid lat/lon");
+  }
+  return {
+    lat: j.lat,
+    lon: j.lon,
+    source: j.source ?? "unknown",
+    precision: j.precision === "city" ? "city" : "address",
+    matched: j.matched ?? j.display_name ?? null,
+    placeLabel: j.placeLabel ?? null,
+    tractGeoid: j.tractGeoid ?? null,
+    countyGeoid: j.countyGeoid ?? null,
+  };
+}
+
+/** Ramène le corps d’une route source au contrat commun. */
+function normalize(def: HazardDef, body: any): Omit<HazardResult, "key" | "title" | "ms" | "error" | "detail"> {
+  if (def.kind === "flood") {
+    return {
+      level: (body?.level as RiskLevel) ?? null,
+      label: body?.zone ? `Zone ${body.zone}` : null,
+      score: null,
+      source: body?.provider ?? "FEMA NFHL",
+      adminUnit: null,
+      data: body,
+    };
+  }
+  if (def.kind === "earthquake") {
+    return {
+      level: (body?.level as RiskLevel) ?? null,
+      // libellé de la même évaluation que le niveau (drivenBy) : note NRI, sinon SDC
+      label: body?.drivenBy === "nri"
+        ? body?.nri?.label ?? null
+        : body?.sdc ? `SDC ${body.sdc}` : null,
+      score: typeof body?.nri?.score === "number" ? body.nri.score : null,
+      source: body?.note ?? "USGS Design Maps",
+      adminUnit: body?.nri?.adminUnit === "tract" || body?.nri?.adminUnit === "county" ? body.nri.adminUnit : null,
+      data: body,
+    };
+  }
+  return {
+    level: (body?.level as RiskLevel) ?? "Undetermined",
+    label: body?.label ?? null,
+    score: typeof body?.score === "number" ? body.score : null,
+    source: body?.provider ?? "FEMA NRI",
+    adminUnit: body?.adminUnit === "tract" || body?.adminUnit === "county" ? body.adminUnit : null,
+    data: body,
+  };
+}
+
+/** lat/lon + GEOID connus (évite le sondage spatial côté NRI) */
+function pointParams(geo: GeocodeResult) {
+  const qs = new URLSearchParams({ lat: String(geo.lat), lon: String(geo.lon) });
+  if (geo.tractGeoid) qs.set("tract", geo.tractGeoid);
+  if (geo.countyGeoid) qs.set("county", geo.countyGeoid);
+  return qs;
+}
+
+async function fetchHazard(
+  origin: string, def: HazardDef, geo: GeocodeResult,
+  opts: { debug: boolean; detail: boolean; seismic: Record<string, string>; hurricane: Record<string, string>; tornado: Record<string, string> },
+): Promise<HazardResult> {
+  const t0 = Date.now();
+  const qs = pointParams(geo);
+  if (opts.debug) qs.set("debug", "1");
+  if (opts.detail && def.kind === "nri") qs.set("detail", "1");
+  if (def.kind === "earthquake") for (const [k, v] of Object.entries(opts.seismic)) qs.set(k, v);
+  if (def.key === "hurricane") for (const [k, v] of Object.entries(opts.hurricane)) qs.set(k, v);
+  if (def.key === "tornado") for (const [k, v] of Object.entries(opts.tornado)) qs.set(k, v);
+  const base = { key: def.key as HazardKey, title: def.title };
+  const empty = { level: null, label: null, score: null, source: def.path, adminUnit: null, data: null, detail: null };
+
+  try {
+    const r = await fetch(`${origin}${def.path}?${qs}`, { cache: "no-store" });
+    const text = await r.text();
+    let body: any = null; try { body = text ? JSON.parse(text) : null; } catch {}
+    if (!r.ok || !body) {
+      const error = body?.error || `${def.title} query failed (${r.status})`;
+      return { ...base, ...empty, data: opts.debug ? body : null, error, ms: Date.now() - t0 };
+    }
+    return { ...base, ...normalize(def, body), detail: body.detail ?? null, error: null, ms: Date.now() - t0 };
+  } catch (e: any) {
+    return { ...base, ...empty, error: e?.message || `${def.title} fetch failed`, ms: Date.now() - t0 };
+  }
+}
+
+/** Profil NRI composite (null si indisponible — n’empêche pas le rapport). */
+async function fetchProfile(origin: string, geo: GeocodeResult): Promise<ProfileResult | null> {
+  try {
+    const r = await fetch(`${origin}/api/nri/profile?${pointParams(geo)}`, { cache: "no-store" });
+    if (!r.ok) return null;
+    return (await r.json()) as ProfileResult;
+  } catch {
+    return null;
+  }
+}
+
+/** Charges ASCE 7 (vent / neige / givre) — null si indisponibles, comme le profil. */
+async function fetchDesignLoads(origin: string, geo: GeocodeResult, riskCategory?: string): Promise<DesignLoads | null> {
+  try {
+    const qs = new URLSearchParams({ lat: String(geo.lat), lon: String(geo.lon) });
+    if (riskCategory) qs.set("riskCategory", riskCategory);
+    const r = await fetch(`${origin}/api/design-loads?${qs}`, { cache: "no-store" });
+    if (!r.ok) return null;
+    return (await r.json()) as DesignLoads;
+  } catch {
+    return null;
+  }
+}
+
+/** Submersion marine Cat 1–5 (carte Hurricane) — null si indisponible. */
+async function fetchSurge(origin: string, geo: GeocodeResult): Promise<StormSurge | null> {
+  try {
+    const r = await fetch(`${origin}/api/hurricane/surge?lat=${geo.lat}&lon=${geo.lon}`, { cache: "no-store" });
+    if (!r.ok) return null;
+    return (await r.json()) as StormSurge;
+  } catch {
+    return null;
+  }
+}
+
+/** Scénarios d’élévation du niveau marin (carte Sea Level Rise) — null si indisponibles. */
+async function fetchSeaLevel(origin: string, geo: GeocodeResult): Promise<SeaLevelRise | null> {
+  try {
+    const r = await fetch(`${origin}/api/sealevel/risk?lat=${geo.lat}&lon=${geo.lon}`, { cache: "no-store" });
+    if (!r.ok) return null;
+    return (await r.json()) as SeaLevelRise;
+  } catch {
+    return null;
+  }
+}
+
+export async function GET(req: NextRequest) {
+  const t0 = Date.now();
+  const u = new URL(req.url);
+  const origin = u.origin;
+  const debug = u.searchParams.get("debug") === "1";
+  const detail = u.searchParams.get("detail") === "1";
+
+  // riskCategory / siteClass / fenêtre d'historique relayés tels quels à /api/earthquake/risk (qui les valide)
+  const seismic: Record<string, string> = {};
+  for (const k of ["riskCategory", "siteClass", "historyRadiusKm", "historyYears"]) {
+    const v = u.searchParams.get(k);
+    if (v) seismic[k] = v;
+  }
+  // rayon / année de départ de l'historique HURDAT2 relayés à /api/hurricane/risk
+  const hurricane: Record<string, string> = {};
+  for (const k of ["historyRadiusMi", "historySince"]) {
+    const v = u.searchParams.get(k);
+    if (v) hurricane[k] = v;
+  }
+  // historique SPC : tornadoRadiusMi / tornadoSince / tornadoBufferMi → paramètres de /api/tornado/risk
+  const tornado: Record<string, string> = {};
+  for (const [k, to] of [["tornadoRadiusMi", "historyRadiusMi"], ["tornadoSince", "historySince"], ["tornadoBufferMi", "bufferMi"]]) {
+    const v = u.searchParams.get(k);
+    if (v) tornado[to] = v;
+  }
+
+  // lat/lon ou address=
+  const lat = u.searchParams.get("lat");
+  const lon = u.searchParams.get("lon");
+  const address = (u.searchParams.get("address") || "").trim();
+
+  let geocode: GeocodeResult;
+  try {
+    if (address && (!lat || !lon)) {
+      geocode = await geocodeFromAddress(origin, address);
+    } else if (lat && lon) {
+      geocode = { lat: Number(lat), lon: Number(lon), source: "input", precision: "address" };
+    } else {
+      return Response.json({ error: "Missing lat/lon or address" }, { status: 400 });
+    }
+  } catch (e: any) {
+    return Response.json({ error: e?.message || "geocode error" }, { status: 400 });
+  }
+
+  if (!Number.isFinite(geocode.lat) || !Number.isFinite(geocode.lon)) {
+    return Response.json({ error: "Missing lat/lon or address" }, { status: 400 });
+  }
+
+  const t1 = Date.now();
+  const [results, profile, designLoads, surge, seaLevel] = await Promise.all([
+    Promise.all(HAZARDS.map(def => fetchHazard(origin, def, geocode, { debug, detail, seismic, hurricane, tornado }))),
+    fetchProfile(origin, geocode),
+    fetchDesignLoads(origin, geocode, seismic.riskCategory),
+    fetchSurge(origin, geocode),
+    fetchSeaLevel(origin, geocode),
+  ]);
+  const t2 = Date.now();
+
+  const hazards = Object.fromEntries(results.map(h => [h.key, h])) as Record<HazardKey, HazardResult>;
+  const body: RiskReport = {
+    geocode,
+    hazards,
+    profile,
+    designLoads,
+    surge,
+    seaLevel,
+    timings: { geocodeMs: t1 - t0, hazardsMs: t2 - t1, totalMs: t2 - t0 },
+  };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
@@ -0,0 +1,8 @@
+// app/api/riverineflood/risk/route.ts — NRI RFLD (RFLD_RISKR / RFLD_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("RFLD");
+export const POST = nriPolygonHandler("RFLD");
@@ -0,0 +1,45 @@
+// app/api/sealevel/risk/route.ts — plus faible scénario d’élévation du niveau marin qui submerge le point + échéances NOAA
+import { NextRequest } from "next/server";
+import { groundElevation } from "@/lib/elevation";
+import { classifyFlood, classifySlr } from "@/lib/flood";
+import { pointFromRequest } from "@/lib/geocode";
+import { queryFloodZones } from "@/lib/nfhl";
+import { slrScenarios, type SeaLevelRise } from "@/lib/slr";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET(req: NextRequest) {
+  const u = new URL(req.url);
+  const debug = u.searchParams.get("debug") === "1";
+
+  // lat/lon ou address=
+  const pt = await pointFromRequest(req);
+  if (pt.error) return pt.error;
+
+  // scénarios 0–10 ft + zone NFHL côtière (partagée avec /api/flood/risk) en parallèle ; seuls les scénarios sont bloquants
+  const [slr, zones] = await Promise.all([
+    slrScenarios(pt.lon, pt.lat),
+    queryFloodZones(pt.lon, pt.lat).catch(() => null),
+  ]);
+  if (!slr.scenarios) {
+    const res: any = { error: "Sea level rise service unavailable" };
+    if (debug) res.debug = { geocode: pt.geocode ?? null, urls: slr.urls, errors: slr.errors };
+    return Response.json(res, { status: 502, headers: { "cache-control": "no-store" } });
+  }
+
+  // altitude du sol : contexte des seuls sites submergés par un scénario
+  const ground = slr.scenarios?.some(x => x.inundated) ? await groundElevation(pt.lon, pt.lat) : null;
+
+  const flood = zones && !zones.error ? classifyFlood(zones.data.features) : null;
+  const body: SeaLevelRise & { debug?: any } = {
+    ...classifySlr(slr.lowestFt, slr.unavailableFt),
+    scenarios: slr.scenarios,
+    floodZone: flood && { zone: flood.zone, coastal: flood.zone.startsWith("V"), level: flood.level },
+    groundFt: ground?.elev?.ft ?? null,
+    provider: "NOAA Sea Level Rise Viewer (inundation above MHHW)",
+    errors: slr.errors,
+  };
+  if (debug) body.debug = { geocode: pt.geocode ?? null, urls: slr.urls, groundUrl: ground?.url ?? null };
+  return Response.json(body, { headers: { "cache-control": "no-store" } });
+}
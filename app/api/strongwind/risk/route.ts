@@ -0,0 +1,8 @@
+// app/api/strongwind/risk/route.ts — NRI SWND (SWND_RISKR / SWND_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("SWND");
+export const POST = nriPolygonHandler("SWND");
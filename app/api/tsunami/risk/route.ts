@@ -0,0 +1,8 @@
+// app/api/tsunami/risk/route.ts — NRI TSUN (TSUN_RISKR / TSUN_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("TSUN");
+export const POST = nriPolygonHandler("TSUN");
@@ -0,0 +1,8 @@
+// app/api/volcano/risk/route.ts — NRI VLCN (VLCN_RISKR / VLCN_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("VLCN");
+export const POST = nriPolygonHandler("VLCN");
@@ -0,0 +1,8 @@
+// app/api/winterweather/risk/route.ts — NRI WNTW (WNTW_RISKR / WNTW_RISKS)
+import { nriPolygonHandler, nriRiskHandler } from "@/lib/nri-route";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export const GET = nriRiskHandler("WNTW");
+export const POST = nriPolygonHandler("WNTW");
@@ -1,18 +1,24 @@
 "use client";
 
-import { useState } from "react";
+import { Fragment, useState } from "react";
 import type React from "react";
+import type { DesignLoads, LoadValue } from "@/lib/design-loads";
+import type { HurricaneHistory } from "@/lib/hurdat";
+import type { FirmInfo, MapAmendment } from "@/lib/nfhl";
+import type { NriHazardDetail } from "@/lib/nri";
+import type { QuakeHistory } from "@/lib/quakes";
+import type { SeaLevelRise } from "@/lib/slr";
+import type { StormSurge } from "@/lib/surge";
+import type { TornadoEvent, TornadoHistory } from "@/lib/tornadoes";
+import type { WildfireSite } from "@/lib/wildfire";
+import { HAZARDS, type HazardKey, type HazardResult, type ProfileResult, type RiskLevel, type RiskReport } from "@/lib/risk";
 
-type Feature = { attributes: Record<string, any> };
-type RiskLevel =
-  | "Very Low" | "Low" | "Moderate" | "High" | "Very High"
-  | "Undetermined" | "Not Applicable";
 
 // ====== CONFIG ======
 const FIVERR_URL = "https://fr.fiverr.com/s/dD1zYLG"; // <-- remplace par ton lien Fiverr
 
 // Périls qui déclenchent la CTA (si niveau ≥ Moderate)
-const CTA_HAZARDS = new Set(["Flood", "Earthquake", "Landslide", "Wildfire", "Hurricane"]);
+const CTA_HAZARDS = new Set(["Flood", "Earthquake", "Landslide", "Wildfire", "Hurricane", "Hail", "Strong Wind"]);
 
 // Palette unique (inclut Not Applicable)
 const PALETTE: Record<RiskLevel, { bg: string; badge: string; text: string; border: string }> = {
@@ -25,56 +31,6 @@ const PALETTE: Record<RiskLevel, { bg: string; badge: string; text: string; bord
   "Not Applicable": { bg: "#f1f5f9", badge: "#64748b", text: "#334155", border: "#cbd5e1" },
 };
 
-// ---------- Flood classification ----------
-function classifyFlood(features: Feature[] | null): {
-  level: RiskLevel; zone: string; sfha: boolean; bfe: string | null; note: string;
-} {
-  if (!features || features.length === 0) {
-    return { level: "Very Low", zone: "N/A", sfha: false, bfe: null, note: "No NFHL polygon returned here" };
-  }
-
-  // évalue une feature et retourne un rang de sévérité
-  const evalOne = (a: Record<string, any>) => {
-    const zone = String(a.FLD_ZONE ?? a.ZONE ?? a.ZONE_SUBTY ?? a.ZONE_SUBTYPE ?? "N/A").toUpperCase();
-    const subty = String(a.ZONE_SUBTY ?? a.ZONE_SUBTYPE ?? "").toUpperCase();
-
-    const bfeRaw = a.BFE ?? a.STATIC_BFE ?? a.DEPTH ?? null;
-    const bfe = bfeRaw == null || Number(bfeRaw) === -9999 ? null : String(bfeRaw);
-
-    const inSFHA =
-      a.SFHA_TF === true || a.SFHA_TF === "T" || a.SFHA_TF === "Y" ||
-      ["A","AE","AO","AH","A1","A2","A3","A99","VE","V","V1"].some(p => zone.startsWith(p));
-
-    const isFloodway = subty.includes("FLOODWAY");
-    const isShadedX =
-      zone === "X" && (subty.includes("0.2") || subty.includes("0.2 PCT") || subty.includes("0.2%") || subty.includes("SHADED"));
-
-    let level: RiskLevel, note = "";
-    if (zone.startsWith("VE") || zone.startsWith("V")) { level = "Very High"; note = "Coastal high hazard (wave action)"; }
-    else if (isFloodway) { level = "High"; note = "Regulatory floodway (within SFHA)"; }
-    else if (["AO","AH","AE","A","A99"].includes(zone) || /^A\d/.test(zone)) {
-      level = "High"; note = "Special Flood Hazard Area (1% annual chance)";
-    }
-    else if (isShadedX) { level = "Moderate"; note = "0.2% annual chance flood (Zone X shaded)"; }
-    else if (zone === "X") { level = "Low"; note = "Outside SFHA (Zone X unshaded)"; }
-    else if (zone === "D") { level = "Undetermined"; note = "Flood data not available (Zone D)"; }
-    else { level = inSFHA ? "High" : "Low"; note = "See FEMA NFHL details"; }
-
-    const rank = level === "Very High" ? 5 : level === "High" ? 4 : level === "Moderate" ? 3 : level === "Low" ? 2 : 1;
-    return { level, zone, bfe, note, inSFHA, rank };
-  };
-
-  // garde la feature la plus “risquée”
-  let best = { level: "Very Low" as RiskLevel, zone: "N/A", bfe: null as string | null, note: "", inSFHA: false, rank: 0 };
-  for (const f of features) {
-    if (!f?.attributes) continue;
-    const cur = evalOne(f.attributes);
-    if (cur.rank > best.rank) best = cur as any;
-  }
-
-  return { level: best.level, zone: best.zone, sfha: best.inSFHA, bfe: best.bfe, note: best.note };
-}
-
 // Sécurise la lecture JSON
 async function safeJson(r: Response) {
   const ct = r.headers.get("content-type") || "";
@@ -87,43 +43,41 @@ async function safeJson(r: Response) {
 
 export default function Home() {
   const [address, setAddress] = useState("");
-  const [loading, setLoading] = useState<"idle" | "geocode" | "fetch">("idle");
+  const [loading, setLoading] = useState<"idle" | "fetch">("idle");
 
   const [error, setError] = useState<string | null>(null);
   const [geoNote, setGeoNote] = useState<string | null>(null);
   const [geoPrecision, setGeoPrecision] = useState<"address" | "city" | null>(null); // <- pour activer/désactiver CTA
 
-  // Flood
-  const [floodLevel, setFloodLevel] = useState<RiskLevel | null>(null);
-  const [floodText, setFloodText]   = useState<string>("Enter any address to see its hazard risk");
-
-  // Earthquake
-  const [eqLevel, setEqLevel] = useState<RiskLevel | null>(null);
-  const [eqText,  setEqText]  = useState<string>("Enter any address to see its hazard risk");
-
-  // Landslide (NRI)
-  const [lsLevel, setLsLevel] = useState<RiskLevel | null>(null);
-  const [lsText,  setLsText]  = useState<string>("Enter any address to see its hazard risk");
-
-  // Wildfire (NRI)
-  const [wfLevel, setWfLevel] = useState<RiskLevel | null>(null);
-  const [wfText,  setWfText]  = useState<string>("Enter any address to see its hazard risk");
+  // Une carte par aléa (ordre = HAZARDS)
+  type CardState = {
+    level: RiskLevel | null; text: string; detail?: NriHazardDetail | null;
+    firm?: FirmInfo | null; amendments?: MapAmendment[];
+    spectrum?: Array<[number, number]> | null;
+    quakes?: QuakeHistory | null;
+    site?: WildfireSite | null;
+    storms?: HurricaneHistory | null;
+    surge?: StormSurge | null;
+    tornadoes?: TornadoHistory | null;
+  };
+  const allCards = (text: string) =>
+    Object.fromEntries(HAZARDS.map(h => [h.key, { level: null, text }])) as Record<HazardKey, CardState>;
+  const [cards, setCards] = useState<Record<HazardKey, CardState>>(() => allCards("Enter any address to see its hazard risk"));
 
-  // Heatwave (NRI)
-  const [heatLevel, setHeatLevel] = useState<RiskLevel | null>(null);
-  const [heatText,  setHeatText]  = useState<string>("Enter any address to see its hazard risk");
+  // Entrées sismiques (carte Earthquake) + point courant pour recharger la seule carte EQ
+  const [seismic, setSeismic] = useState({ riskCategory: "II", siteClass: "" });
+  const [point, setPoint] = useState<{ lat: number; lon: number } | null>(null);
 
-  // Cold Wave (NRI)
-  const [coldLevel, setColdLevel] = useState<RiskLevel | null>(null);
-  const [coldText,  setColdText]  = useState<string>("Enter any address to see its hazard risk");
+  // Profil NRI composite (panneau au-dessus de la grille)
+  const [profile, setProfile] = useState<ProfileResult | null>(null);
 
-  // Hurricane (NRI)
-  const [hurrLevel, setHurrLevel] = useState<RiskLevel | null>(null);
-  const [hurrText,  setHurrText]  = useState<string>("Enter any address to see its hazard risk");
+  // Charges ASCE 7 (carte Design Loads, sans niveau de risque)
+  const [designLoads, setDesignLoads] = useState<DesignLoads | null>(null);
+  const [loadsNote, setLoadsNote] = useState("Enter any address to see its design loads");
 
-  // Tornado (NRI)
-  const [torLevel, setTorLevel] = useState<RiskLevel | null>(null);
-  const [torText,  setTorText]  = useState<string>("Enter any address to see its hazard risk");
+  // Élévation du niveau marin (carte Sea Level Rise, après Flood)
+  const [seaLevel, setSeaLevel] = useState<SeaLevelRise | null>(null);
+  const [seaLevelNote, setSeaLevelNote] = useState("Enter any address to see its sea level rise exposure");
 
   function parseLatLon(s: string): {lat:number, lon:number} | null {
     const m = s.trim().match(/^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/);
@@ -134,140 +88,171 @@ export default function Home() {
     return { lat, lon };
   }
 
+  // -------- Helper NRI --------
+  const formatNri = (lvl: RiskLevel, score: any, tractId?: string | null) => {
+    if (lvl === "Undetermined" || lvl === "Not Applicable") return "";
+    const word = `${String(lvl).toLowerCase()} risk`;
+    const levelWord = word.charAt(0).toUpperCase() + word.slice(1);
+    const parts: string[] = [`${levelWord} susceptibility`];
+    const s = Number.isFinite(Number(score)) ? Math.round(Number(score) * 10) / 10 : null;
+    if (s !== null) parts.push(`score ${s}`);
+    if (tractId) parts.push(`tract ${tractId}`);
+    return parts.join(" — ");
+  };
+
+  const fmtDist = (m: number) => (m >= 1000 ? `${Math.round(m / 100) / 10} km` : `${Math.round(m)} m`);
+
+  /** Carte Earthquake : SDC + paramètres clés ; spectre multi-période (7-22) sinon deux périodes */
+  function eqCard(level: RiskLevel, d: any): CardState {
+    const p = d.parameters ?? {};
+    const parts: string[] = [];
+    if (d.sdc) {
+      let code = `SDC ${d.sdc} (ASCE ${d.edition}, Site ${d.siteClass}, Risk Cat ${d.riskCategory ?? "II"})`;
+      if (d.sds != null && d.sd1 != null) code += ` | SDS ${d.sds} g, SD1 ${d.sd1} g`;
+      if (p.ss != null && p.s1 != null) code += ` | Ss ${p.ss} g, S1 ${p.s1} g`;
+      if (p.tl != null) code += ` | TL ${p.tl} s`;
+      parts.push(code);
+    } else {
+      parts.push("USGS Design Maps unavailable");
+    }
+    if (d.nri) parts.push(`NRI: ${d.nri.label ?? d.nri.level}${d.nri.score != null ? ` (score ${Math.round(d.nri.score * 10) / 10})` : ""}`);
+    const f = d.nearestFault;
+    if (f) {
+      const meta = [f.slipRate && `slip rate ${f.slipRate}`, f.age && `age ${f.age}`].filter(Boolean).join(", ");
+      parts.push(`Nearest Quaternary fault: ${f.name ?? "unnamed"}${f.section ? ` (${f.section})` : ""}, ${f.distanceKm} km ${f.direction}${meta ? ` — ${meta}` : ""}`);
+      if (d.faultTruncated && d.faultNote) parts.push(d.faultNote);
+    } else if (d.faultNote) parts.push(d.faultNote);
+    if (d.drivenBy) parts.push(`Level from ${d.drivenBy === "nri" ? "NRI relative risk" : "ASCE design category"}`);
+    const line = parts.join(" | ");
+    const spectrum = d.spectra?.multiPeriod?.design ?? d.spectra?.twoPeriod?.design ?? null;
+    return { level, text: line, spectrum, quakes: d.history ?? null };
+  }
+
+  /** Nouvelle catégorie de risque / classe de site → recharge uniquement la carte Earthquake */
+  async function onSeismicChange(next: { riskCategory: string; siteClass: string }) {
+    setSeismic(next);
+    if (!point) return;
+    setCards(c => ({ ...c, earthquake: { level: null, text: "Querying USGS Design Maps…" } }));
+    if (next.riskCategory !== seismic.riskCategory) void refetchLoads(point, next.riskCategory);
+    const qs = new URLSearchParams({ lat: String(point.lat), lon: String(point.lon), riskCategory: next.riskCategory });
+    if (next.siteClass) qs.set("siteClass", next.siteClass);
+    try {
+      const r = await fetch(`/api/earthquake/risk?${qs}`, { cache: "no-store" });
+      const j = await safeJson(r);
+      if (!r.ok || j?.__nonjson || !j?.level) throw new Error(j?.error || "Earthquake query failed.");
+      setCards(c => ({ ...c, earthquake: eqCard(j.level, j) }));
+    } catch (e: any) {
+      setCards(c => ({ ...c, earthquake: { level: null, text: e.message || String(e) } }));
+    }
+  }
+
+  /** Recharge la carte Design Loads (la vitesse de vent dépend de la catégorie de risque) */
+  async function refetchLoads(p: { lat: number; lon: number }, riskCategory: string) {
+    setDesignLoads(null);
+    setLoadsNote("Querying ATC Hazards by Location…");
+    try {
+      const r = await fetch(`/api/design-loads?lat=${p.lat}&lon=${p.lon}&riskCategory=${riskCategory}`, { cache: "no-store" });
+      const j = await safeJson(r);
+      if (!r.ok || j?.__nonjson || !j?.edition) throw new Error(j?.error || "Design loads query failed.");
+      setDesignLoads(j as DesignLoads);
+    } catch (e: any) {
+      setLoadsNote(e.message || String(e));
+    }
+  }
+
+  /** Texte de carte (SANS le préfixe du niveau) à partir d’une entrée /api/risk */
+  function cardFromResult(h: HazardResult): CardState {
+    if (h.error || !h.level) return { level: null, text: h.error || `${h.title} query failed.` };
+    const d = h.data ?? {};
+    if (h.key === "flood") {
+      let line = `Zone ${d.zone}`;
+      if (d.bfe != null) line += ` | BFE: ${d.bfe} ft`;
+      else if (d.depth != null) line += ` | Depth: ${d.depth} ft`;
+      if (d.note) line += ` | ${d.note}`;
+      const n = d.nearestSfha;
+      if (n) line += ` | nearest SFHA: ${n.zone}, ${fmtDist(n.distanceM)} ${n.direction}`;
+      else if (d.nearestSearchedM && !d.nearestTruncated) line += ` | no SFHA within ${fmtDist(d.nearestSearchedM)}`;
+      if (d.nearestTruncated) line += " (dense area: NFHL record limit reached, nearest SFHA may be closer)";
+      const fb = d.freeboard;
+      if (fb?.freeboardFt != null) {
+        line += ` | ${fb.freeboardFt >= 0 ? "Freeboard" : "Below BFE"}: ${Math.abs(fb.freeboardFt)} ft (ground ${fb.groundFt} ft vs BFE ${fb.bfeFt} ft ${fb.datum}`;
+        line += fb.bfeSource === "static" ? ")" : `, BFE ${fb.bfeSource}${fb.approximate ? ", approximate" : ""})`;
+        if (fb.datumMismatch) line += ` — BFE published in ${fb.bfeDatum}`;
+      }
+      return { level: h.level, text: line, firm: d.firm ?? null, amendments: d.amendments ?? [] };
+    }
+    if (h.key === "earthquake") return eqCard(h.level, d);
+    if (h.key === "wildfire") {
+      // NRI = note communautaire (tract) ; valeurs au pixel dans le tableau "Site-level"
+      const nri = formatNri(h.level, h.score, d.tractId || null);
+      const line = [nri && `Community (NRI): ${nri}`, d.siteNote].filter(Boolean).join(" | ");
+      return { level: h.level, text: line, detail: h.detail, site: d.site ?? null };
+    }
+    if (h.key === "hurricane") {
+      const hh: HurricaneHistory | null = d.history ?? null;
+      const line = [
+        formatNri(h.level, h.score, d.tractId || null),
+        hh && `${hh.hurricanes} hurricane${hh.hurricanes === 1 ? "" : "s"} passed within ${hh.radiusMi} mi since ${hh.since}`,
+      ].filter(Boolean).join(" | ");
+      return { level: h.level, text: line, detail: h.detail, storms: hh };
+    }
+    if (h.key === "tornado") {
+      const th: TornadoHistory | null = d.history ?? null;
+      const line = [
+        formatNri(h.level, h.score, d.tractId || null),
+        th && `${th.total} tornado${th.total === 1 ? "" : "es"} within ${th.radiusMi} mi since ${th.since}`,
+        th?.crossings ? `${th.crossings} crossed within ${th.bufferMi} mi of the site` : null,
+      ].filter(Boolean).join(" | ");
+      return { level: h.level, text: line, detail: h.detail, tornadoes: th };
+    }
+    return { level: h.level, text: formatNri(h.level, h.score, d.tractId || null), detail: h.detail };
+  }
+
   async function onCheck() {
     setError(null);
     setGeoNote(null);
     setGeoPrecision(null);
-    setLoading("geocode");
-
-    const geoMsg = "Geocoding address…";
-    setFloodLevel(null); setFloodText(geoMsg);
-    setEqLevel(null);    setEqText(geoMsg);
-    setLsLevel(null);    setLsText(geoMsg);
-    setWfLevel(null);    setWfText(geoMsg);
-    setHeatLevel(null);  setHeatText(geoMsg);
-    setColdLevel(null);  setColdText(geoMsg);
-    setHurrLevel(null);  setHurrText(geoMsg);
-    setTorLevel(null);   setTorText(geoMsg);
+    setLoading("fetch");
+    setCards(allCards("Querying hazard sources…"));
+    setProfile(null);
+    setPoint(null);
+    setDesignLoads(null);
+    setLoadsNote("Querying ATC Hazards by Location…");
+    setSeaLevel(null);
+    setSeaLevelNote("Querying NOAA Sea Level Rise Viewer…");
 
     try {
-      // 1) lat,lon direct ?
+      // lat,lon direct ? sinon /api/risk géocode lui-même
       const ll = parseLatLon(address);
-      let lat: number, lon: number;
-
-      if (ll) {
-        lat = ll.lat; lon = ll.lon;
-        setGeoPrecision("address");
-      } else {
-        // géocoder
-        const g = await fetch(`/api/geocode?address=${encodeURIComponent(address)}`, { cache: "no-store" });
-        const gj = await g.json();
-        if (!g.ok) throw new Error(gj?.error || "Error fetching coordinates.");
-        lat = gj.lat; lon = gj.lon;
-        const precision = (gj?.precision === "city") ? "city" : "address";
-        setGeoPrecision(precision);
-        if (precision === "city") setGeoNote(`Exact address not found. Using city centroid${gj?.placeLabel ? `: ${gj.placeLabel}` : ""}.`);
-      }
-
-      setLoading("fetch");
-      setFloodText("Querying FEMA NFHL…");
-      setEqText("Querying USGS (Design Maps)…");
-      setLsText("Querying NRI Landslide…");
-      setWfText("Querying NRI Wildfire…");
-      setHeatText("Querying NRI Heatwave…");
-      setColdText("Querying NRI Cold Wave…");
-      setHurrText("Querying Hurricane…");
-      setTorText("Querying NRI Tornado…");
-
-      // 2) requêtes parallèles
-      const [femaRes, eqRes, lsRes, wfRes, heatRes, coldRes, hurrRes, torRes] = await Promise.allSettled([
-        fetch(`/api/fema/query?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/earthquake/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/landslide/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/wildfire/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/heatwave/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/coldwave/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/hurricane/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-        fetch(`/api/tornado/risk?lat=${lat}&lon=${lon}`, { cache: "no-store" }),
-      ]);
-
-      // Flood (texte SANS le prefixe du niveau)
-      if (femaRes.status === "fulfilled") {
-        const r = femaRes.value; const j = await r.json();
-        if (r.ok) {
-          const res = classifyFlood(j.features ?? []);
-          let line = `Zone ${res.zone}`;
-          if (res.bfe) line += ` | BFE/Depth: ${res.bfe} ft`;
-          if (res.note) line += ` | ${res.note}`;
-          setFloodLevel(res.level); setFloodText(line);
-        } else { setFloodLevel(null); setFloodText(j?.error || "FEMA query failed."); }
-      } else { setFloodLevel(null); setFloodText("FEMA fetch failed."); }
-
-      // Earthquake
-      if (eqRes.status === "fulfilled") {
-        const r = eqRes.value; const j = await r.json();
-        if (r.ok) {
-          setEqLevel(j.level as RiskLevel);
-          setEqText(`SDC ${j.sdc} (ASCE ${j.edition}, Site ${j.siteClass})`);
-        } else { setEqLevel(null); setEqText(j?.error || "USGS query failed."); }
-      } else { setEqLevel(null); setEqText("USGS fetch failed."); }
-
-      // -------- Helper NRI --------
-      const formatNri = (lvl: RiskLevel, score: any, tractId?: string | null) => {
-        if (lvl === "Undetermined" || lvl === "Not Applicable") return "";
-        const word = `${String(lvl).toLowerCase()} risk`;
-        const levelWord = word.charAt(0).toUpperCase() + word.slice(1);
-        const parts: string[] = [`${levelWord} susceptibility`];
-        const s = Number.isFinite(Number(score)) ? Math.round(Number(score) * 10) / 10 : null;
-        if (s !== null) parts.push(`score ${s}`);
-        if (tractId) parts.push(`tract ${tractId}`);
-        return parts.join(" — ");
-      };
-
-      // Landslide (NRI)
-      if (lsRes.status === "fulfilled") {
-        const r = lsRes.value; const j = await r.json();
-        if (r.ok) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setLsLevel(lvl); setLsText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setLsLevel(null); setLsText(j?.error || "NRI landslide query failed."); }
-      } else { setLsLevel(null); setLsText("NRI landslide fetch failed."); }
-
-      // Wildfire (NRI)
-      if (wfRes.status === "fulfilled") {
-        const r = wfRes.value; const j = await safeJson(r);
-        if (r.ok && !j?.__nonjson) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setWfLevel(lvl); setWfText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setWfLevel(null); setWfText("NRI wildfire query failed."); }
-      } else { setWfLevel(null); setWfText("NRI wildfire fetch failed."); }
-
-      // Heatwave (NRI)
-      if (heatRes.status === "fulfilled") {
-        const r = heatRes.value; const j = await r.json();
-        if (r.ok) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setHeatLevel(lvl); setHeatText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setHeatLevel(null); setHeatText(j?.error || "NRI heatwave query failed."); }
-      } else { setHeatLevel(null); setHeatText("NRI heatwave fetch failed."); }
-
-      // Cold Wave (NRI)
-      if (coldRes.status === "fulfilled") {
-        const r = coldRes.value; const j = await r.json();
-        if (r.ok) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setColdLevel(lvl); setColdText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setColdLevel(null); setColdText(j?.error || "NRI cold wave query failed."); }
-      } else { setColdLevel(null); setColdText("NRI cold wave fetch failed."); }
-
-      // Hurricane (NRI)
-      if (hurrRes.status === "fulfilled") {
-        const r = hurrRes.value; const j = await r.json();
-        if (r.ok) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setHurrLevel(lvl); setHurrText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setHurrLevel(null); setHurrText(j?.error || "Hurricane query failed."); }
-      } else { setHurrLevel(null); setHurrText("Hurricane fetch failed."); }
-
-      // Tornado (NRI)
-      if (torRes.status === "fulfilled") {
-        const r = torRes.value; const j = await r.json();
-        if (r.ok) { const lvl = (j.level as RiskLevel) ?? "Undetermined"; setTorLevel(lvl); setTorText(formatNri(lvl, j.score, j.tractId || null)); }
-        else { setTorLevel(null); setTorText("NRI tornado query failed."); }
-      } else { setTorLevel(null); setTorText("NRI tornado fetch failed."); }
-
+      const qs = ll
+        ? `lat=${ll.lat}&lon=${ll.lon}`
+        : `address=${encodeURIComponent(address)}`;
+      const eq = `riskCategory=${seismic.riskCategory}${seismic.siteClass ? `&siteClass=${seismic.siteClass}` : ""}`;
+
+      const r = await fetch(`/api/risk?${qs}&${eq}&detail=1`, { cache: "no-store" });
+      const j = await safeJson(r);
+      if (!r.ok || j?.__nonjson) throw new Error(j?.error || "Error fetching hazard risk.");
+      const report = j as RiskReport;
+
+      setPoint({ lat: report.geocode.lat, lon: report.geocode.lon });
+      const precision = report.geocode.precision;
+      setGeoPrecision(precision);
+      if (precision === "city") setGeoNote(`Exact address not found. Using city centroid${report.geocode.placeLabel ? `: ${report.geocode.placeLabel}` : ""}.`);
+
+      const next = {} as Record<HazardKey, CardState>;
+      for (const h of HAZARDS) next[h.key] = cardFromResult(report.hazards[h.key]);
+      next.hurricane = { ...next.hurricane, surge: report.surge };
+      setCards(next);
+      setProfile(report.profile);
+      setDesignLoads(report.designLoads);
+      if (!report.designLoads) setLoadsNote("Design loads unavailable for this location.");
+      setSeaLevel(report.seaLevel);
+      if (!report.seaLevel) setSeaLevelNote("Sea level rise data unavailable for this location.");
     } catch (e: any) {
       setError(e.message || String(e));
+      setCards(allCards("Enter any address to see its hazard risk"));
+      setLoadsNote("Enter any address to see its design loads");
+      setSeaLevelNote("Enter any address to see its sea level rise exposure");
     } finally {
       setLoading("idle");
     }
@@ -352,6 +337,15 @@ export default function Home() {
   const h2: React.CSSProperties = { margin: "0 0 10px 0", fontSize: 22, color: "#111827" };
   const cardBody: React.CSSProperties = { padding: 24 };
   const small: React.CSSProperties = { fontSize: 14, color: "#334155" };
+  const panel: React.CSSProperties = {
+    ...card,
+    maxWidth: 1100,
+    margin: "20px auto 0",
+    display: "grid",
+    gridTemplateColumns: "repeat(auto-fit, minmax(240px, 1fr))",
+  };
+  const panelTile: React.CSSProperties = { padding: 16, borderRight: "1px solid #e2e8f0", color: "#111827" };
+  const panelLabel: React.CSSProperties = { fontSize: 12, textTransform: "uppercase", letterSpacing: 0.5, color: "#64748b", marginBottom: 8 };
   const foot: React.CSSProperties = { fontSize: 12, opacity: 0.7, textAlign: "center", marginTop: 8, color: "#374151" };
 
   const coloredHeader = (lvl: RiskLevel): React.CSSProperties => ({
@@ -369,13 +363,13 @@ export default function Home() {
     fontWeight: 700,
   });
 
-  const cardShell = (title: string, text: string) => (
+  const cardShell = (title: string, text: string, extra?: React.ReactNode) => (
     <section style={card}>
       <div style={sectionHeader}><h2 style={{ ...h2, margin: 0 }}>{title}</h2></div>
-      <div style={cardBody}><div style={small} aria-live="polite">{text}</div></div>
+      <div style={cardBody}><div style={small} aria-live="polite">{text}</div>{extra}</div>
     </section>
   );
-  const levelCard = (title: string, lvl: RiskLevel, text: string) => (
+  const levelCard = (title: string, lvl: RiskLevel, text: string, extra?: React.ReactNode) => (
     <section style={{ ...card, border: `1px solid ${PALETTE[lvl].border}` }}>
       <div style={coloredHeader(lvl)}>
         <h2 style={{ ...h2, margin: 0 }}>{title}</h2>
@@ -389,21 +383,318 @@ export default function Home() {
       </div>
       <div style={cardBody}>
         <div style={small} aria-live="polite">{text}</div>
+        {extra}
         {/* CTA par carte */}
         {CTA(title, lvl)}
       </div>
     </section>
   );
 
-  // Ordre: Flood → EQ → Landslide → Wildfire → Heatwave → Cold Wave → Hurricane → Tornado
-  const floodCard = floodLevel == null ? cardShell("Flood", floodText) : levelCard("Flood", floodLevel, floodText);
-  const eqCard    = eqLevel    == null ? cardShell("Earthquake", eqText) : levelCard("Earthquake", eqLevel!, eqText);
-  const lsCard    = lsLevel    == null ? cardShell("Landslide", lsText) : levelCard("Landslide", lsLevel!, lsText);
-  const wfCard    = wfLevel    == null ? cardShell("Wildfire", wfText) : levelCard("Wildfire", wfLevel!, wfText);
-  const heatCard  = heatLevel  == null ? cardShell("Heatwave", heatText) : levelCard("Heatwave", heatLevel!, heatText);
-  const coldCard  = coldLevel  == null ? cardShell("Cold Wave", coldText) : levelCard("Cold Wave", coldLevel!, coldText);
-  const hurrCard  = hurrLevel  == null ? cardShell("Hurricane", hurrText) : levelCard("Hurricane", hurrLevel!, hurrText);
-  const torCard   = torLevel   == null ? cardShell("Tornado", torText) : levelCard("Tornado", torLevel!, torText);
+  const fmtUsd = (n: number | null) =>
+    n == null ? "—" : n.toLocaleString("en-US", { style: "currency", currency: "USD", maximumFractionDigits: 0 });
+  const fmtScore = (n: number | null) => (n == null ? "" : ` — score ${Math.round(n * 10) / 10}`);
+  const ratingBadge = (lvl: RiskLevel, label: string | null) => (
+    <span style={{ ...badge(lvl), fontSize: 13 }}>{(label || lvl).toUpperCase()}</span>
+  );
+
+  const profilePanel = profile && (
+    <section style={panel} aria-label="National Risk Index summary">
+      <div style={panelTile}>
+        <div style={panelLabel}>Overall Risk Index</div>
+        {ratingBadge(profile.risk.level, profile.risk.label)}
+        <div style={{ ...small, marginTop: 8 }}>
+          FEMA NRI {profile.adminUnit}{fmtScore(profile.risk.score)}
+        </div>
+      </div>
+      <div style={panelTile}>
+        <div style={panelLabel}>Expected Annual Loss</div>
+        <div style={{ fontSize: 20, fontWeight: 700 }}>{fmtUsd(profile.eal.total)}<span style={small}> / yr</span></div>
+        <div style={{ ...small, marginTop: 6 }}>
+          Building {fmtUsd(profile.eal.building)} • Population {fmtUsd(profile.eal.population)} • Agriculture {fmtUsd(profile.eal.agriculture)}
+        </div>
+        {profile.eal.label && <div style={{ ...small, marginTop: 4 }}>Rating: {profile.eal.label}</div>}
+      </div>
+      <div style={panelTile}>
+        <div style={panelLabel}>Social Vulnerability</div>
+        {ratingBadge(profile.sovi.level, profile.sovi.label)}
+        <div style={{ ...small, marginTop: 8 }}>Higher = more vulnerable{fmtScore(profile.sovi.score)}</div>
+      </div>
+      <div style={{ ...panelTile, borderRight: "none" }}>
+        <div style={panelLabel}>Community Resilience</div>
+        <div style={{ fontSize: 16, fontWeight: 700 }}>{profile.resl.label || "—"}</div>
+        <div style={{ ...small, marginTop: 8 }}>Higher = more resilient{fmtScore(profile.resl.score)}</div>
+      </div>
+    </section>
+  );
+
+  // « Pourquoi ce niveau » — champs NRI derrière le rating (detail=1)
+  const fmtNum = (n: number | null, digits = 3) =>
+    n == null ? "—" : Math.abs(n) >= 1000 ? Math.round(n).toLocaleString("en-US") : Number(n.toPrecision(digits)).toString();
+  const detailRow = (k: string, v: React.ReactNode) => (
+    <tr key={k}><td style={{ padding: "2px 8px 2px 0", color: "#64748b" }}>{k}</td><td style={{ padding: "2px 0" }}>{v}</td></tr>
+  );
+  const whyRating = (d: NriHazardDetail) => (
+    <details style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <summary style={{ cursor: "pointer", textAlign: "center" }}>Why this rating</summary>
+      <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {detailRow("Annualized frequency", `${fmtNum(d.frequency.annualized)} / yr`)}
+          {detailRow("Recorded events", fmtNum(d.frequency.events))}
+          {detailRow("Exposure — buildings", fmtUsd(d.exposure.building))}
+          {detailRow("Exposure — population", fmtNum(d.exposure.population))}
+          {detailRow("Exposure — agriculture", fmtUsd(d.exposure.agriculture))}
+          {detailRow("Historic loss ratio — bldg / pop / ag",
+            [d.historicLossRatio.building, d.historicLossRatio.population, d.historicLossRatio.agriculture].map(x => fmtNum(x)).join(" / "))}
+          {d.historicLossRatio.rating && detailRow("Historic loss ratio rating", d.historicLossRatio.rating)}
+          {detailRow("Expected annual loss", `${fmtUsd(d.eal.total)} / yr`)}
+          {d.eal.rating && detailRow("EAL rating", d.eal.rating)}
+        </tbody>
+      </table>
+    </details>
+  );
+
+  // Panneau FIRM + communauté NFIP (carte Flood)
+  const firmInfo = (f: FirmInfo) => (
+    <table style={{ fontSize: 13, marginTop: 12, borderCollapse: "collapse", width: "100%", textAlign: "left" }}>
+      <tbody>
+        {detailRow("FIRM panel", f.panel ?? "—")}
+        {detailRow("Effective date", f.effectiveDate ?? "—")}
+        {detailRow("Community", f.community ?? "—")}
+        {detailRow("NFIP community ID", f.communityId ?? "—")}
+        {f.mscUrl && detailRow("FEMA MSC", (
+          <a href={f.mscUrl} target="_blank" rel="noopener noreferrer">{f.panel ? "Download panel" : "Search this location"}</a>
+        ))}
+      </tbody>
+    </table>
+  );
+
+  // LOMR / LOMA au point → la zone cartographiée peut avoir été modifiée
+  const amendedNote = (list: MapAmendment[]) => (
+    <div style={{ ...small, marginTop: 12, padding: "8px 10px", borderRadius: 6, background: "#fef3c7", color: "#78350f", textAlign: "left" }}>
+      <strong>Mapped zone may have been amended.</strong>
+      {list.map((a, i) => (
+        <div key={i}>
+          {a.type} {a.caseNumber ?? "(no case number)"}
+          {a.effectiveDate && ` — effective ${a.effectiveDate}`}
+          {a.status && ` — ${a.status}`}
+        </div>
+      ))}
+    </div>
+  );
+
+  // Carte Earthquake : sélecteurs ASCE + petit spectre de calcul Sa(T)
+  const select: React.CSSProperties = { padding: "4px 6px", borderRadius: 6, border: "1px solid #cbd5e1", fontSize: 13 };
+  const seismicInputs = (
+    <div style={{ ...small, marginTop: 12, display: "flex", gap: 8, justifyContent: "center", flexWrap: "wrap" }}>
+      <label>
+        Risk Category{" "}
+        <select style={select} value={seismic.riskCategory}
+          onChange={e => onSeismicChange({ ...seismic, riskCategory: e.target.value })}>
+          {["I", "II", "III", "IV"].map(x => <option key={x} value={x}>{x}</option>)}
+        </select>
+      </label>
+      <label>
+        Site Class{" "}
+        <select style={select} value={seismic.siteClass}
+          onChange={e => onSeismicChange({ ...seismic, siteClass: e.target.value })}>
+          <option value="">Auto (D)</option>
+          {["A", "B", "BC", "C", "CD", "D", "DE", "E", "Default"].map(x => <option key={x} value={x}>{x}</option>)}
+        </select>
+      </label>
+    </div>
+  );
+  const spectrumChart = (pts: Array<[number, number]>) => {
+    const W = 240, H = 110, pad = 22;
+    const tMax = Math.min(Math.max(...pts.map(p => p[0])), 6) || 1;
+    const shown = pts.filter(p => p[0] <= tMax);
+    const saMax = Math.max(...shown.map(p => p[1])) || 1;
+    const x = (t: number) => pad + (t / tMax) * (W - pad - 6);
+    const y = (sa: number) => H - pad + 4 - (sa / saMax) * (H - pad - 8);
+    return (
+      <svg width={W} height={H} style={{ display: "block", margin: "12px auto 0" }} role="img" aria-label="Design response spectrum">
+        <line x1={pad} y1={y(0)} x2={W - 6} y2={y(0)} stroke="#94a3b8" />
+        <line x1={pad} y1={y(0)} x2={pad} y2={4} stroke="#94a3b8" />
+        <polyline fill="none" stroke="#ea580c" strokeWidth={2} points={shown.map(([t, sa]) => `${x(t)},${y(sa)}`).join(" ")} />
+        <text x={pad + 4} y={12} fontSize={10} fill="#64748b">Sa max {Math.round(saMax * 100) / 100} g</text>
+        <text x={W - 6} y={H - 4} fontSize={10} fill="#64748b" textAnchor="end">T = {tMax} s</text>
+      </svg>
+    );
+  };
+
+  // Historique FDSN (carte Earthquake)
+  const quakeEvent = (e: QuakeHistory["largest"]) =>
+    e ? `M${e.magnitude.toFixed(1)} on ${e.date}, ${e.distanceKm} km away${e.place ? ` (${e.place})` : ""}` : "none";
+  const quakeHistoryBlock = (h: QuakeHistory) => (
+    <details style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <summary style={{ cursor: "pointer", textAlign: "center" }}>
+        Earthquake history: {h.total}{h.truncated ? "+" : ""} events M{h.minMagnitude}+ within {h.radiusKm} km since {h.start.slice(0, 4)}
+      </summary>
+      <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {h.bins.map(b => detailRow(b.label, String(b.count)))}
+          {detailRow("Largest", quakeEvent(h.largest))}
+          {detailRow("Nearest M4+", quakeEvent(h.nearestM4))}
+        </tbody>
+      </table>
+    </details>
+  );
+
+  // Carte Design Loads (ASCE 7 via ATC) : valeurs de calcul, pas un niveau de risque
+  const fmtLoad = (v: LoadValue | null | undefined) => (v ? `${v.value} ${v.unit}`.trim() : "—");
+  const loadsCard = (d: DesignLoads | null) => {
+    if (!d) return cardShell("Design Loads", loadsNote);
+    const byRc = Object.entries(d.wind?.byRiskCategory ?? {}) as Array<[string, LoadValue]>;
+    return (
+      <section style={card}>
+        <div style={sectionHeader}>
+          <h2 style={{ ...h2, margin: 0 }}>Design Loads</h2>
+          <div style={{ ...small, marginTop: 6 }}>{d.edition} — Risk Category {d.riskCategory}</div>
+        </div>
+        <div style={{ ...cardBody, textAlign: "left" }}>
+          <table style={{ fontSize: 13, borderCollapse: "collapse", width: "100%" }}>
+            <tbody>
+              {detailRow("Basic wind speed", d.wind ? fmtLoad(d.wind.speed) : d.errors.wind ?? "—")}
+              {byRc.length > 1 && detailRow("By Risk Category", byRc.map(([rc, v]) => `${rc}: ${fmtLoad(v)}`).join(" · "))}
+              {detailRow("Ground snow load", d.snow ? fmtLoad(d.snow.groundSnowLoad) : d.errors.snow ?? "—")}
+              {d.snow?.note && detailRow("Snow note", d.snow.note)}
+              {detailRow("Ice thickness", d.ice ? fmtLoad(d.ice.thickness) : d.errors.ice ?? "—")}
+              {d.ice && detailRow("Concurrent gust", fmtLoad(d.ice.concurrentGust))}
+              {d.ice?.concurrentTemperature && detailRow("Concurrent temperature", fmtLoad(d.ice.concurrentTemperature))}
+            </tbody>
+          </table>
+          <div style={{ ...small, fontSize: 12, marginTop: 10, opacity: 0.8 }}>Source: {d.provider}</div>
+        </div>
+      </section>
+    );
+  };
+
+  // Historique HURDAT2 (carte Hurricane)
+  const stormHistoryBlock = (h: HurricaneHistory) => (
+    <details style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <summary style={{ cursor: "pointer", textAlign: "center" }}>
+        Storm history: {h.total} tracks within {h.radiusMi} mi, {h.since}–{h.through ?? "present"}
+      </summary>
+      <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {h.byCategory.filter(c => c.count > 0).map(c => detailRow(c.category, String(c.count)))}
+          {h.storms.slice(0, 10).map(s => (
+            <Fragment key={s.id}>
+              {detailRow(`${s.name} ${s.year}`, `${s.maxCategory}${s.maxWindKt != null ? ` (${s.maxWindKt} kt)` : ""}, closest ${s.closestMi} mi`)}
+            </Fragment>
+          ))}
+          {h.storms.length > 10 && detailRow("…", `${h.storms.length - 10} earlier storms`)}
+        </tbody>
+      </table>
+    </details>
+  );
+
+  // Historique SPC (carte Tornado)
+  const tornadoEvent = (e: TornadoEvent | null) =>
+    e ? `${e.rating} on ${e.date}, ${e.distanceMi} mi away${e.lengthMi ? ` (${e.lengthMi} mi track)` : ""}` : "none";
+  const tornadoHistoryBlock = (h: TornadoHistory) => (
+    <details style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <summary style={{ cursor: "pointer", textAlign: "center" }}>
+        Tornado history: {h.total} tracks within {h.radiusMi} mi, {h.since}–{h.through ?? "present"}
+      </summary>
+      <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {h.byRating.filter(r => r.count > 0).map(r => detailRow(r.rating, String(r.count)))}
+          {detailRow("Strongest", tornadoEvent(h.strongest))}
+          {detailRow("Most recent", tornadoEvent(h.mostRecent))}
+          {detailRow(`Crossed within ${h.bufferMi} mi`, String(h.crossings))}
+        </tbody>
+      </table>
+    </details>
+  );
+
+  // Submersion SLOSH Cat 1–5 (carte Hurricane)
+  const surgeBlock = (s: StormSurge) => (
+    <div style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <div style={{ textAlign: "center", fontWeight: 600 }}>Storm surge above ground — {s.note}</div>
+      {(s.modeled || Object.keys(s.errors).length > 0) && (
+        <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+          <tbody>
+            {s.categories.map(c => detailRow(`Category ${c.category}`,
+              c.inundated === null ? "unavailable" : c.heightFt != null && c.inundated ? `${c.heightFt} ft` : "dry"))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  // Valeurs au pixel (carte Wildfire)
+  const wuiLabel = (w: WildfireSite["wui"]) =>
+    !w ? "—" : w.class === "non-WUI" ? "Non-WUI" : `${w.density ? `${w.density[0].toUpperCase()}${w.density.slice(1)}-density ` : ""}${w.class}`;
+  const wildfireSiteBlock = (s: WildfireSite) => (
+    <div style={{ ...small, marginTop: 12, textAlign: "left" }}>
+      <div style={{ textAlign: "center", fontWeight: 600 }}>Site-level (USFS / SILVIS)</div>
+      <table style={{ fontSize: 13, marginTop: 8, borderCollapse: "collapse", width: "100%" }}>
+        <tbody>
+          {detailRow("Burn probability", s.burnProbability == null ? "—"
+            : `${(s.burnProbability * 100).toFixed(2)}% / yr${s.returnYears ? ` (≈ 1 in ${s.returnYears.toLocaleString("en-US")} yrs)` : ""}`)}
+          {detailRow("Conditional flame length", s.flameLengthFt == null ? "—" : `${s.flameLengthFt} ft`)}
+          {detailRow("Wildfire Hazard Potential", s.whp ? s.whp.label : "—")}
+          {detailRow("WUI class", wuiLabel(s.wui))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+  // Carte Sea Level Rise : scénarios 0–10 ft + échéances NOAA Intermediate / High
+  const seaLevelCard = (d: SeaLevelRise | null) => {
+    if (!d) return cardShell("Sea Level Rise", seaLevelNote);
+    const when = (y: 2050 | 2100 | null) => (y == null ? "not by 2100" : `by ${y}`);
+    const extra = (
+      <div style={{ ...small, marginTop: 12, textAlign: "left" }}>
+        <table style={{ fontSize: 13, borderCollapse: "collapse", width: "100%" }}>
+          <tbody>
+            {detailRow("Lowest inundating scenario",
+              d.level === "Undetermined" ? "undetermined" : d.lowestFt == null ? "none up to 10 ft" : `${d.lowestFt} ft above MHHW`)}
+            {d.lowestFt != null && detailRow("NOAA Intermediate", `${when(d.reachedBy.intermediate)} (${d.projections.intermediate[2050]} ft in 2050, ${d.projections.intermediate[2100]} ft in 2100)`)}
+            {d.lowestFt != null && detailRow("NOAA High", `${when(d.reachedBy.high)} (${d.projections.high[2050]} ft in 2050, ${d.projections.high[2100]} ft in 2100)`)}
+            {d.floodZone?.coastal && detailRow("FEMA zone", `${d.floodZone.zone} (coastal high hazard)`)}
+          </tbody>
+        </table>
+      </div>
+    );
+    return levelCard("Sea Level Rise", d.level, d.note, extra);
+  };
+
+  // Ordre: HAZARDS (Flood → EQ → Landslide → … → Tornado → autres aléas NRI)
+  const hazardCard = (key: HazardKey, title: string) => {
+    const c = cards[key];
+    const extra = key === "wildfire" ? (
+      <>
+        {c.site ? wildfireSiteBlock(c.site) : null}
+        {c.detail ? whyRating(c.detail) : null}
+      </>
+    ) : key === "hurricane" ? (
+      <>
+        {c.surge?.modeled || c.surge?.level === "Undetermined" ? surgeBlock(c.surge) : null}
+        {c.storms ? stormHistoryBlock(c.storms) : null}
+        {c.detail ? whyRating(c.detail) : null}
+      </>
+    ) : key === "tornado" ? (
+      <>
+        {c.tornadoes ? tornadoHistoryBlock(c.tornadoes) : null}
+        {c.detail ? whyRating(c.detail) : null}
+      </>
+    ) : c.detail ? whyRating(c.detail) : key === "earthquake" ? (
+      <>
+        {seismicInputs}
+        {c.spectrum?.length ? spectrumChart(c.spectrum) : null}
+        {c.quakes ? quakeHistoryBlock(c.quakes) : null}
+      </>
+    ) : (
+      <>
+        {c.amendments?.length ? amendedNote(c.amendments) : null}
+        {c.firm ? firmInfo(c.firm) : null}
+      </>
+    );
+    // chargement / échec : les sélecteurs ASCE restent affichés pour relancer la carte Earthquake
+    const shellExtra = key === "earthquake" ? seismicInputs : undefined;
+    return <Fragment key={key}>{c.level == null ? cardShell(title, c.text, shellExtra) : levelCard(title, c.level, c.text, extra)}</Fragment>;
+  };
 
   return (
     <div>
@@ -420,7 +711,7 @@ export default function Home() {
             onKeyDown={(e) => { if (e.key === "Enter" && loading === "idle") onCheck(); }}
           />
           <button style={btn} onClick={onCheck} disabled={loading !== "idle"}>
-            {loading === "idle" ? "Check" : loading === "geocode" ? "Geocoding…" : "Checking…"}
+            {loading === "idle" ? "Check" : "Checking…"}
           </button>
         </div>
         <div style={hint}>Street, city, or county (US only) - It may take up to 45 seconds </div>
@@ -465,20 +756,21 @@ export default function Home() {
           </div>
         )}
 
+  {profilePanel}
+
   <div style={grid}>
-  {floodCard}
-  {eqCard}
-  {lsCard}
-  {wfCard}
-  {heatCard}
-  {coldCard}
-  {hurrCard}
-  {torCard}
+  {HAZARDS.map(h => (
+    <Fragment key={h.key}>
+      {hazardCard(h.key, h.title)}
+      {h.key === "flood" && seaLevelCard(seaLevel)}
+      {h.key === "earthquake" && loadsCard(designLoads)}
+    </Fragment>
+  ))}
 </div>
 
 {/* Sources */}
 <div style={foot}>
-  ⚠️ Informational tool. Sources: FEMA NFHL (Flood) • USGS Design Maps (Earthquake, Risk Cat I) • FEMA NRI (Landslide, Wildfire, Heatwave, Cold Wave, Tornado).
+  ⚠️ Informational tool. Sources: FEMA NFHL (Flood) • USGS 3DEP / EPQS (ground elevation) • USGS Design Maps (Earthquake, selectable Risk Category / Site Class) • USGS ComCat (earthquake history) • USGS Qfaults (Quaternary faults) • ATC Hazards by Location (ASCE 7 design loads) • USFS Wildfire Risk to Communities / WHP and SILVIS WUI (site-level wildfire) • NOAA Sea Level Rise Viewer (sea level rise) • NOAA HURDAT2 (hurricane tracks) • NOAA SLOSH MOM (storm surge) • NOAA SPC (tornado tracks) • FEMA NRI (Earthquake, Landslide, Wildfire, Heatwave, Cold Wave, Hurricane, Tornado, Riverine/Coastal Flooding, Hail, Strong Wind, Winter Weather, Ice Storm, Drought, Lightning, Avalanche, Tsunami, Volcanic Activity).
 </div>
 
 {/* Copyright / licence */}
@@ -0,0 +1,65 @@
+// lib/corridor.test.ts — lecture du tracé et découpage par zone NFHL / tract NRI (services ArcGIS simulés)
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+import { analyzeCorridor, parseLineGeoJson } from "@/lib/corridor";
+import { NRI_TRACTS } from "@/lib/nri";
+
+test("parseLineGeoJson: geometry, Feature or wrapper; WGS84 and at least 2 positions", () => {
+  const coords = [[-90, 30], [-89.99, 30.01]];
+  assert.deepEqual(parseLineGeoJson({ type: "LineString", coordinates: coords }), { coords });
+  assert.deepEqual(parseLineGeoJson({ type: "Feature", properties: {}, geometry: { type: "LineString", coordinates: coords } }), { coords });
+  assert.deepEqual(parseLineGeoJson({ geometry: { type: "LineString", coordinates: [["-90", "30"], [-89, 31]] } }),
+    { coords: [[-90, 30], [-89, 31]] });
+  assert.deepEqual(parseLineGeoJson({ type: "Polygon", coordinates: [] }),
+    { error: "Body must be a GeoJSON LineString (geometry or Feature)" });
+  assert.deepEqual(parseLineGeoJson({ type: "LineString", coordinates: [[-90, 30], [250, 30]] }),
+    { error: "Coordinates must be [lon, lat] in WGS84" });
+  assert.deepEqual(parseLineGeoJson({ type: "LineString", coordinates: [[-90, 30]] }),
+    { error: "A LineString needs at least 2 positions" });
+});
+
+/** Rectangle [x0, x1] × [29.99, 30.01] en anneau ArcGIS. */
+const box = (x0: number, x1: number) => ({ rings: [[[x0, 29.99], [x0, 30.01], [x1, 30.01], [x1, 29.99], [x0, 29.99]]] });
+
+test("analyzeCorridor: POSTed pages, truncated layers and unclassified gaps", async () => {
+  const posts: Array<{ url: string; form: URLSearchParams }> = [];
+  const json = (data: unknown) => new Response(JSON.stringify(data), { headers: { "content-type": "application/json" } });
+  mock.method(globalThis, "fetch", async (input: any, init?: RequestInit) => {
+    const url = String(input);
+    if (init?.method !== "POST") throw new Error("offline"); // catalogue NFHL, lookup NRI des trous
+    const form = new URLSearchParams(String(init.body));
+    posts.push({ url, form });
+    const offset = Number(form.get("resultOffset"));
+    if (url.startsWith(NRI_TRACTS)) {
+      // tract A puis tract B sur la page suivante ; le dernier tronçon n’est couvert par aucun
+      return offset === 0
+        ? json({ features: [{ attributes: { TRACTFIPS: "22071000100", HRCN_RISKR: "Very High" }, geometry: box(-90.005, -89.99) }], exceededTransferLimit: true })
+        : json({ features: [{ attributes: { TRACTFIPS: "22071000200", HRCN_RISKR: "Relatively Low" }, geometry: box(-89.99, -89.985) }] });
+    }
+    // zones NFHL : le service annonce toujours d’autres enregistrements → plafond de pages
+    return json({
+      features: offset === 0 ? [{ attributes: { FLD_ZONE: "AE", SFHA_TF: "T" }, geometry: box(-90.01, -89.99) }] : [],
+      exceededTransferLimit: true,
+    });
+  });
+
+  try {
+    const res = await analyzeCorridor([[-90, 30], [-89.98, 30]], ["HRCN"]);
+
+    assert.ok(posts.every(p => !p.url.includes("?") && p.form.get("geometry")?.includes("paths")));
+    const offsets = (prefix: string) => posts.filter(p => p.url.startsWith(prefix)).map(p => Number(p.form.get("resultOffset")));
+    assert.deepEqual(offsets(NRI_TRACTS), [0, 500]);
+    assert.deepEqual(offsets(posts.find(p => !p.url.startsWith(NRI_TRACTS))!.url), [0, 1000, 2000, 3000, 4000]);
+    assert.deepEqual(res.truncated, { flood: true, nri: false });
+
+    assert.deepEqual(res.segments.map(s => [s.flood?.zone ?? null, s.geoid, s.nri.HRCN ?? null]), [
+      ["AE", "22071000100", "Very High"],
+      [null, "22071000200", "Low"],
+      [null, null, null],
+    ]);
+    assert.ok(Math.abs(res.summary.lengthM - 1928) < 5, `length ${res.summary.lengthM}`);
+    assert.equal(res.debug.gapLookups, 1);
+  } finally {
+    mock.restoreAll();
+  }
+});
@@ -0,0 +1,230 @@
+// lib/corridor.ts — analyse de tracé linéaire (canalisation, route, digue) : zones NFHL + tracts NRI
+import { NextRequest } from "next/server";
+import { classifyFlood } from "@/lib/flood";
+import { crossingParams, haversineM, insideRings, lineLengthM } from "@/lib/geo";
+import { NFHL_BASE, nfhlLayerId, postJson } from "@/lib/nfhl";
+import { NRI_COUNTIES, NRI_TRACTS, extractHazard, lookupNri, type NriCode, type NriUnit } from "@/lib/nri";
+import type { RiskLevel } from "@/lib/risk";
+
+const MAX_LENGTH_M = Number(process.env.CORRIDOR_MAX_LENGTH_M ?? 100_000); // 100 km
+const MAX_VERTICES = 1000;
+const MAX_GAP_LOOKUPS = 20;
+const MAX_PAGES = 5; // pages resultOffset par couche (au-delà : `truncated`)
+
+export type CorridorSegment = {
+  startM: number;               // chaînage de début (m depuis le premier sommet)
+  endM: number;
+  lengthM: number;
+  flood: { zone: string; subtype: string | null; level: RiskLevel; sfha: boolean; floodway: boolean } | null;
+  nriUnit: NriUnit | null;
+  geoid: string | null;         // TRACTFIPS (ou STCOFIPS)
+  nri: Partial<Record<NriCode, RiskLevel>>;
+};
+
+export type CorridorSummary = {
+  lengthM: number;
+  flood: Partial<Record<RiskLevel | "Unmapped", number>>;   // longueur (m) par niveau
+  nri: Partial<Record<NriCode, Partial<Record<RiskLevel, number>>>>;
+};
+
+/** LineString GeoJSON (geometry ou Feature) → sommets [lon, lat] validés. */
+export function parseLineGeoJson(input: any): { coords: number[][] } | { error: string } {
+  const geom = input?.type === "Feature" ? input.geometry : input?.geometry ?? input;
+  if (!geom || geom.type !== "LineString" || !Array.isArray(geom.coordinates)) {
+    return { error: "Body must be a GeoJSON LineString (geometry or Feature)" };
+  }
+  const coords = geom.coordinates.map((p: any) => [Number(p?.[0]), Number(p?.[1])]);
+  if (coords.some(([x, y]: number[]) => !Number.isFinite(x) || !Number.isFinite(y) || x < -180 || x > 180 || y < -90 || y > 90)) {
+    return { error: "Coordinates must be [lon, lat] in WGS84" };
+  }
+  if (coords.length < 2) return { error: "A LineString needs at least 2 positions" };
+  return { coords };
+}
+
+/** Corps JSON d'un POST → tracé validé (longueur et nb de sommets bornés). */
+export async function lineFromRequest(req: NextRequest): Promise<
+  { line: { coords: number[][]; lengthM: number }; error?: undefined } | { error: Response; line?: undefined }
+> {
+  const body = await req.json().catch(() => null);
+  if (!body) return { error: Response.json({ error: "Invalid JSON body" }, { status: 400 }) };
+
+  const parsed = parseLineGeoJson(body);
+  if ("error" in parsed) return { error: Response.json({ error: parsed.error }, { status: 400 }) };
+  if (parsed.coords.length > MAX_VERTICES) {
+    return { error: Response.json({ error: `Line too detailed (max ${MAX_VERTICES} vertices)` }, { status: 400 }) };
+  }
+  const lengthM = lineLengthM(parsed.coords);
+  if (!(lengthM > 0)) return { error: Response.json({ error: "Line has no length" }, { status: 400 }) };
+  if (lengthM > MAX_LENGTH_M) {
+    return { error: Response.json({ error: `Line too long (max ${MAX_LENGTH_M / 1000} km)` }, { status: 400 }) };
+  }
+  return { line: { coords: parsed.coords, lengthM } };
+}
+
+type Poly = { attributes: Record<string, any>; rings: number[][][] };
+
+const polyline = (coords: number[][]) => JSON.stringify({ paths: [coords], spatialReference: { wkid: 4326 } });
+
+/**
+ * Polygones intersectés par le tracé (géométrie incluse) : POST formulaire — une polyligne de 1000 sommets
+ * dépasse les limites d’URL — paginé par resultOffset ; `truncated` si la limite du service coupe encore.
+ */
+async function queryAlong(layerUrl: string, coords: number[][], pageSize: number, p: Record<string, string>) {
+  const url = `${layerUrl}/query`;
+  const polys: Poly[] = [];
+  let exceeded = false, error: string | null = null;
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const r = await postJson(url, {
+      f: "json",
+      where: "1=1",
+      geometry: polyline(coords),
+      geometryType: "esriGeometryPolyline",
+      inSR: "4326",
+      outSR: "4326",
+      spatialRel: "esriSpatialRelIntersects",
+      returnGeometry: "true",
+      geometryPrecision: "6",
+      ...p,
+      resultOffset: String(page * pageSize),
+      resultRecordCount: String(pageSize),
+    });
+    if (!r.ok) { error = r.data?.error?.message || "query failed"; break; }
+    for (const f of r.data?.features ?? []) {
+      if (f?.attributes && Array.isArray(f?.geometry?.rings)) polys.push({ attributes: f.attributes, rings: f.geometry.rings });
+    }
+    exceeded = !!r.data?.exceededTransferLimit;
+    if (!exceeded) break;
+  }
+  // page suivante en échec ou plafond atteint alors que le service en annonçait d’autres
+  return { url, polys, error, truncated: exceeded };
+}
+
+/** Zones NFHL le long du tracé. */
+async function floodAlong(coords: number[][]) {
+  const layerId = await nfhlLayerId("floodZones");
+  return queryAlong(`${NFHL_BASE}/MapServer/${layerId}`, coords, 1000, {
+    maxAllowableOffset: "0.00001",
+    outFields: "FLD_ZONE,ZONE_SUBTY,SFHA_TF,BFE,STATIC_BFE,DEPTH,V_DATUM",
+  });
+}
+
+/** Tracts (sinon counties) traversés : une requête par couche, géométrie incluse. */
+async function nriAlong(coords: number[][]) {
+  const tries: Array<{ unit: NriUnit; url: string; count: number; error: string | null }> = [];
+  for (const [unit, layer] of [["tract", NRI_TRACTS], ["county", NRI_COUNTIES]] as const) {
+    const r = await queryAlong(layer, coords, 500, { maxAllowableOffset: "0.0001", outFields: "*" });
+    tries.push({ unit, url: r.url, count: r.polys.length, error: r.error });
+    if (r.polys.length) return { unit: unit as NriUnit, polys: r.polys, truncated: r.truncated, tries };
+  }
+  return { unit: null, polys: [] as Poly[], truncated: false, tries };
+}
+
+type Piece = {
+  startM: number; endM: number; mid: number[];
+  floodKey: string; flood: CorridorSegment["flood"];
+  unit: NriUnit | null; attrs: Record<string, any> | null;
+};
+
+const geoidOf = (unit: NriUnit | null, a: Record<string, any> | null) =>
+  a ? (String((unit === "county" ? a.STCOFIPS : a.TRACTFIPS ?? a.GEOID) ?? "") || null) : null;
+
+/** Fusionne les morceaux contigus de même zone et même unité NRI. */
+function merge(pieces: Piece[]): Piece[] {
+  const out: Piece[] = [];
+  for (const p of pieces) {
+    const prev = out.at(-1);
+    if (prev && prev.floodKey === p.floodKey && geoidOf(prev.unit, prev.attrs) === geoidOf(p.unit, p.attrs)) prev.endM = p.endM;
+    else out.push({ ...p });
+  }
+  return out;
+}
+
+/**
+ * Découpe le tracé aux limites de zones NFHL et de tracts NRI (intersections exactes segment/arête),
+ * classe chaque tronçon par son milieu, puis résume les longueurs par niveau.
+ */
+export async function analyzeCorridor(coords: number[][], codes: NriCode[]) {
+  const [flood, nri] = await Promise.all([floodAlong(coords), nriAlong(coords)]);
+  const boundaries = [...flood.polys, ...nri.polys].flatMap(p => p.rings);
+
+  // 1) morceaux élémentaires entre deux franchissements de limite
+  const pieces: Piece[] = [];
+  let chain = 0;
+  for (let i = 1; i < coords.length; i++) {
+    const a = coords[i - 1], b = coords[i];
+    const ts = [0, ...crossingParams(a, b, boundaries), 1].sort((x, y) => x - y);
+    const at = (t: number) => [a[0] + (b[0] - a[0]) * t, a[1] + (b[1] - a[1]) * t];
+    for (let k = 1; k < ts.length; k++) {
+      const p0 = at(ts[k - 1]), p1 = at(ts[k]);
+      const len = haversineM(p0[0], p0[1], p1[0], p1[1]);
+      if (len < 0.01) continue;
+      const mid = at((ts[k - 1] + ts[k]) / 2);
+
+      const here = flood.polys.filter(f => insideRings(mid[0], mid[1], f.rings));
+      const cls = here.length ? classifyFlood(here.map(f => ({ attributes: f.attributes }))) : null;
+      const unit = nri.polys.find(f => insideRings(mid[0], mid[1], f.rings));
+
+      pieces.push({
+        startM: chain, endM: chain + len, mid,
+        floodKey: cls ? `${cls.zone}|${cls.subtype ?? ""}` : "",
+        flood: cls && { zone: cls.zone, subtype: cls.subtype, level: cls.level, sfha: cls.sfha, floodway: cls.floodway },
+        unit: unit ? nri.unit : null,
+        attrs: unit?.attributes ?? null,
+      });
+      chain += len;
+    }
+  }
+
+  // 2) trous NRI (tract simplifié, bord de côte…) : lookup au milieu — cascade pickFeature en cache
+  let merged = merge(pieces);
+  let gapLookups = 0;
+  for (const s of merged) {
+    if (s.attrs || gapLookups >= MAX_GAP_LOOKUPS) continue;
+    gapLookups++;
+    // échec réseau : tronçon laissé sans classement NRI plutôt qu’une erreur pour tout le tracé
+    const r = await lookupNri(s.mid[0], s.mid[1]).catch(() => null);
+    if (r?.attrs) { s.unit = r.unit; s.attrs = r.attrs; }
+  }
+  merged = merge(merged);
+
+  // 3) tronçons + résumé
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const segments: CorridorSegment[] = merged.map(s => {
+    const levels: CorridorSegment["nri"] = {};
+    if (s.attrs) for (const c of codes) levels[c] = extractHazard(s.attrs, c).level;
+    return {
+      startM: round(s.startM), endM: round(s.endM), lengthM: round(s.endM - s.startM),
+      flood: s.flood, nriUnit: s.unit, geoid: geoidOf(s.unit, s.attrs), nri: levels,
+    };
+  });
+
+  // résumé sur les longueurs brutes (arrondi à la fin)
+  const summary: CorridorSummary = { lengthM: round(chain), flood: {}, nri: {} };
+  merged.forEach((m, i) => {
+    const len = m.endM - m.startM, s = segments[i];
+    const fk = s.flood?.level ?? "Unmapped";
+    summary.flood[fk] = (summary.flood[fk] ?? 0) + len;
+    for (const [c, lvl] of Object.entries(s.nri) as Array<[NriCode, RiskLevel]>) {
+      const bucket = (summary.nri[c] ??= {});
+      bucket[lvl] = (bucket[lvl] ?? 0) + len;
+    }
+  });
+  for (const k of Object.keys(summary.flood) as Array<keyof CorridorSummary["flood"]>) summary.flood[k] = round(summary.flood[k]!);
+  for (const bucket of Object.values(summary.nri)) {
+    for (const k of Object.keys(bucket!) as RiskLevel[]) bucket![k] = round(bucket![k]!);
+  }
+
+  return {
+    segments,
+    summary,
+    // limite d’enregistrements atteinte : des zones / tracts manquent (tronçons « Unmapped » ou comblés au milieu)
+    truncated: { flood: flood.truncated, nri: nri.truncated },
+    floodError: flood.error,
+    debug: {
+      flood: { url: flood.url, error: flood.error, count: flood.polys.length, truncated: flood.truncated },
+      nri: nri.tries,
+      pieces: pieces.length,
+      gapLookups,
+    },
+  };
+}
@@ -0,0 +1,118 @@
+// lib/design-loads.ts — charges de calcul ASCE 7 (vent, neige, givre) via un service compatible ATC Hazards by Location
+
+// Base compatible ATC (…/wind.json, /snow.json, /ice.json) — remplaçable par un stand-in local via la VAR d’env
+export const ATC_HAZARDS_URL = (process.env.ATC_HAZARDS_URL || "https://api-hazards.atcouncil.org/public/v1").replace(/\/+$/, "");
+const ATC_API_KEY = process.env.ATC_API_KEY || "";
+
+export const LOAD_EDITIONS = { "asce7-22": "ASCE/SEI 7-22", "asce7-16": "ASCE/SEI 7-16", "asce7-10": "ASCE/SEI 7-10" } as const;
+export type LoadEdition = keyof typeof LOAD_EDITIONS;
+export const RISK_CATEGORIES = ["I", "II", "III", "IV"] as const;
+export type RiskCategory = (typeof RISK_CATEGORIES)[number];
+
+export type LoadValue = { value: number; unit: string };
+
+export type DesignLoads = {
+  edition: string;                 // ex. "ASCE/SEI 7-22"
+  riskCategory: RiskCategory;
+  wind: {
+    speed: LoadValue | null;       // vitesse de base pour la catégorie demandée
+    byRiskCategory: Partial<Record<RiskCategory, LoadValue>>;
+    edition: string;
+  } | null;
+  snow: { groundSnowLoad: LoadValue | null; edition: string; note: string | null } | null;
+  ice: { thickness: LoadValue | null; concurrentGust: LoadValue | null; concurrentTemperature: LoadValue | null; edition: string } | null;
+  provider: string;
+  errors: Partial<Record<"wind" | "snow" | "ice", string>>;
+};
+
+type Item = { name: string; value: number; unit: string; note: string | null };
+
+/**
+ * Aplatit une réponse ATC en entrées { name, value, unit } :
+ * accepte `data` / `response.data` / `datasets` (tableaux) ou un objet { clé: { value, unit } }.
+ */
+function items(body: any): Item[] {
+  const src = body?.response?.data ?? body?.data ?? body?.datasets ?? body?.parameters ?? body;
+  const list: any[] = Array.isArray(src)
+    ? src
+    : src && typeof src === "object"
+      ? Object.entries(src).map(([k, v]: [string, any]) => (v && typeof v === "object" ? { name: k, ...v } : { name: k, value: v }))
+      : [];
+  return list
+    .map(x => {
+      const d = x?.data && typeof x.data === "object" && !Array.isArray(x.data) ? { ...x, ...x.data } : x;
+      const value = Number(d?.value);
+      return {
+        name: String(d?.name ?? d?.label ?? d?.title ?? ""),
+        value,
+        unit: String(d?.unit ?? d?.units ?? "").trim(),
+        note: d?.note ?? d?.description ?? null,
+      };
+    })
+    .filter(x => x.name && Number.isFinite(x.value));
+}
+
+const pick = (list: Item[], rx: RegExp): LoadValue | null => {
+  const it = list.find(x => rx.test(x.name));
+  return it ? { value: it.value, unit: it.unit } : null;
+};
+
+async function atc(kind: "wind" | "snow" | "ice", lat: number, lon: number, standard: string, riskCategory: string) {
+  const url = `${ATC_HAZARDS_URL}/${kind}.json?${new URLSearchParams({ lat: String(lat), lng: String(lon), standard, riskCategory })}`;
+  const r = await fetch(url, {
+    headers: { accept: "application/json", ...(ATC_API_KEY ? { "api-key": ATC_API_KEY } : {}) },
+    cache: "no-store",
+  });
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok || !j) throw new Error(j?.message || j?.error || `${kind} query failed (${r.status})`);
+  return { url, list: items(j) };
+}
+
+/** Vent (toutes catégories), neige au sol et givre + rafale concomitante pour une édition / catégorie. */
+export async function designLoads(lat: number, lon: number, edition: LoadEdition, riskCategory: RiskCategory) {
+  const standard = LOAD_EDITIONS[edition];
+  const [w, s, i] = await Promise.allSettled([
+    atc("wind", lat, lon, standard, riskCategory),
+    atc("snow", lat, lon, standard, riskCategory),
+    atc("ice", lat, lon, standard, riskCategory),
+  ]);
+  const errors: DesignLoads["errors"] = {};
+  const urls: string[] = [];
+
+  let wind: DesignLoads["wind"] = null;
+  if (w.status === "fulfilled") {
+    urls.push(w.value.url);
+    const byRiskCategory: Partial<Record<RiskCategory, LoadValue>> = {};
+    for (const rc of RISK_CATEGORIES) {
+      const v = pick(w.value.list, new RegExp(`risk\\s*category\\s*${rc}(?![IV])`, "i"));
+      if (v) byRiskCategory[rc] = v;
+    }
+    const speed = byRiskCategory[riskCategory] ?? pick(w.value.list, /wind\s*speed|ultimate|basic/i);
+    wind = { speed, byRiskCategory, edition: standard };
+  } else errors.wind = String(w.reason?.message || w.reason);
+
+  let snow: DesignLoads["snow"] = null;
+  if (s.status === "fulfilled") {
+    urls.push(s.value.url);
+    const it = s.value.list.find(x => /ground\s*snow|^pg$|snow\s*load/i.test(x.name));
+    snow = { groundSnowLoad: it ? { value: it.value, unit: it.unit || "psf" } : null, edition: standard, note: it?.note ?? null };
+  } else errors.snow = String(s.reason?.message || s.reason);
+
+  let ice: DesignLoads["ice"] = null;
+  if (i.status === "fulfilled") {
+    urls.push(i.value.url);
+    ice = {
+      thickness: pick(i.value.list, /ice\s*thickness|^thickness/i),
+      concurrentGust: pick(i.value.list, /gust|wind/i),
+      concurrentTemperature: pick(i.value.list, /temp/i),
+      edition: standard,
+    };
+  } else errors.ice = String(i.reason?.message || i.reason);
+
+  const loads: DesignLoads = {
+    edition: standard, riskCategory, wind, snow, ice,
+    provider: "ATC Hazards by Location (ASCE 7)",
+    errors,
+  };
+  return { loads, urls };
+}
@@ -0,0 +1,30 @@
+// lib/elevation.ts — altitude du sol au point (USGS EPQS ou service compatible)
+
+// Endpoint compatible EPQS v1 (?x=&y=&wkid=4326&units=Feet) — remplaçable via la VAR d’env
+export const EPQS_URL = (process.env.EPQS_URL || "https://epqs.nationalmap.gov/v1/json").replace(/\/+$/, "");
+
+export type GroundElevation = {
+  ft: number;
+  datum: string;          // EPQS / 3DEP : NAVD88
+  source: string;
+};
+
+/** Altitude du sol (ft). null si hors couverture / service indisponible. */
+export async function groundElevation(lon: number, lat: number): Promise<{ elev: GroundElevation | null; url: string; err?: string }> {
+  const url = `${EPQS_URL}?${new URLSearchParams({ x: String(lon), y: String(lat), wkid: "4326", units: "Feet", includeDate: "false" })}`;
+  try {
+    const r = await fetch(url, { headers: { accept: "application/json" }, cache: "no-store" });
+    const j: any = await r.json().catch(() => null);
+    if (!r.ok || !j) return { elev: null, url, err: `EPQS ${r.status}` };
+
+    // v1 : { value }, ancien service : { USGS_Elevation_Point_Query_Service: { Elevation_Query: { Elevation } } }
+    const raw = j.value ?? j.USGS_Elevation_Point_Query_Service?.Elevation_Query?.Elevation;
+    const ft = Number(raw);
+    // EPQS renvoie -1000000 hors couverture
+    if (raw == null || raw === "" || !Number.isFinite(ft) || ft <= -10000) return { elev: null, url, err: "no elevation at this point" };
+
+    return { elev: { ft: Math.round(ft * 100) / 100, datum: "NAVD88", source: "USGS EPQS (3DEP)" }, url };
+  } catch (e: any) {
+    return { elev: null, url, err: e?.message || "EPQS fetch failed" };
+  }
+}
@@ -0,0 +1,18 @@
+// lib/flood.test.ts — scénarios SLR → échéances NOAA 2022 et niveau
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { classifySlr } from "@/lib/flood";
+
+test("classifySlr: lowest inundating scenario against the Intermediate / High projections", () => {
+  const levels = [0, 0.5, 1, 3, 5, 8].map(ft => classifySlr(ft).level);
+  assert.deepEqual(levels, ["Very High", "Very High", "High", "High", "Moderate", "Low"]);
+  assert.deepEqual(classifySlr(1).reachedBy, { intermediate: 2100, high: 2050 });
+  assert.deepEqual(classifySlr(8).reachedBy, { intermediate: null, high: null });
+});
+
+test("classifySlr: dry up to 10 ft is Very Low, a failed lower scenario is Undetermined", () => {
+  assert.equal(classifySlr(null).level, "Very Low");
+  const out = classifySlr(null, 2);
+  assert.equal(out.level, "Undetermined");
+  assert.equal(out.note, "Undetermined: 2 ft scenario unavailable");
+});
@@ -0,0 +1,166 @@
+// lib/flood.ts — classification NFHL (zone → niveau), utilisée par /api/flood/risk
+import type { RiskLevel } from "@/lib/risk";
+
+export type Feature = { attributes: Record<string, any> };
+
+export type FloodClass = {
+  level: RiskLevel;
+  zone: string;                // FLD_ZONE (ex. "AE", "X")
+  subtype: string | null;      // ZONE_SUBTY (ex. "FLOODWAY", "0.2 PCT ANNUAL CHANCE FLOOD HAZARD")
+  sfha: boolean;               // Special Flood Hazard Area
+  floodway: boolean;
+  bfe: number | null;          // BFE / STATIC_BFE (ft)
+  depth: number | null;        // DEPTH (ft, zones AO)
+  datum: string | null;        // V_DATUM de la BFE (ex. NAVD88)
+  note: string;
+};
+
+/** -9999 = « sans valeur » dans NFHL */
+function nfhlNum(v: unknown): number | null {
+  if (v == null || v === "") return null;
+  const n = Number(v);
+  return Number.isFinite(n) && n !== -9999 ? n : null;
+}
+
+// ---------- Flood classification ----------
+export function classifyFlood(features: Feature[] | null): FloodClass {
+  if (!features || features.length === 0) {
+    return {
+      level: "Very Low", zone: "N/A", subtype: null, sfha: false, floodway: false, bfe: null, depth: null, datum: null,
+      note: "No NFHL polygon returned here",
+    };
+  }
+
+  // évalue une feature et retourne un rang de sévérité
+  const evalOne = (a: Record<string, any>) => {
+    const zone = String(a.FLD_ZONE ?? a.ZONE ?? a.ZONE_SUBTY ?? a.ZONE_SUBTYPE ?? "N/A").toUpperCase();
+    const subty = String(a.ZONE_SUBTY ?? a.ZONE_SUBTYPE ?? "").toUpperCase();
+
+    const bfe = nfhlNum(a.BFE) ?? nfhlNum(a.STATIC_BFE);
+    const depth = nfhlNum(a.DEPTH);
+    const datum = a.V_DATUM == null || String(a.V_DATUM).trim() === "" ? null : String(a.V_DATUM).trim();
+
+    const inSFHA =
+      a.SFHA_TF === true || a.SFHA_TF === "T" || a.SFHA_TF === "Y" ||
+      ["A","AE","AO","AH","A1","A2","A3","A99","VE","V","V1"].some(p => zone.startsWith(p));
+
+    const isFloodway = subty.includes("FLOODWAY");
+    const isShadedX =
+      zone === "X" && (subty.includes("0.2") || subty.includes("0.2 PCT") || subty.includes("0.2%") || subty.includes("SHADED"));
+
+    let level: RiskLevel, note = "";
+    if (zone.startsWith("VE") || zone.startsWith("V")) { level = "Very High"; note = "Coastal high hazard (wave action)"; }
+    else if (isFloodway) { level = "High"; note = "Regulatory floodway (within SFHA)"; }
+    else if (["AO","AH","AE","A","A99"].includes(zone) || /^A\d/.test(zone)) {
+      level = "High"; note = "Special Flood Hazard Area (1% annual chance)";
+    }
+    else if (isShadedX) { level = "Moderate"; note = "0.2% annual chance flood (Zone X shaded)"; }
+    else if (zone === "X") { level = "Low"; note = "Outside SFHA (Zone X unshaded)"; }
+    else if (zone === "D") { level = "Undetermined"; note = "Flood data not available (Zone D)"; }
+    else { level = inSFHA ? "High" : "Low"; note = "See FEMA NFHL details"; }
+
+    const rank = level === "Very High" ? 5 : level === "High" ? 4 : level === "Moderate" ? 3 : level === "Low" ? 2 : 1;
+    const res: FloodClass = { level, zone, subtype: subty || null, sfha: inSFHA, floodway: isFloodway, bfe, depth, datum, note };
+    return { res, rank };
+  };
+
+  // garde la feature la plus “risquée”
+  let best: { res: FloodClass; rank: number } | null = null;
+  for (const f of features) {
+    if (!f?.attributes) continue;
+    const cur = evalOne(f.attributes);
+    if (!best || cur.rank > best.rank) best = cur;
+  }
+
+  return best?.res ?? {
+    level: "Very Low", zone: "N/A", subtype: null, sfha: false, floodway: false, bfe: null, depth: null, datum: null, note: "",
+  };
+}
+
+// ---------- Revanche (freeboard) sol / BFE ----------
+export type Freeboard = {
+  groundFt: number | null;
+  bfeFt: number | null;
+  bfeSource: "static" | "interpolated" | "nearest-line" | "depth" | null;
+  freeboardFt: number | null;  // sol − BFE (négatif = sol sous la BFE)
+  datum: string | null;        // datum vertical du sol (référence de la comparaison)
+  bfeDatum: string | null;     // datum publié de la BFE
+  datumMismatch: boolean;      // BFE publiée dans un autre datum que le MNT (ex. NGVD29)
+  approximate: boolean;        // BFE de la ligne la plus proche, non encadrée
+  note: string;
+};
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+/**
+ * Compare l'altitude du sol (NAVD88) à la BFE : statique, sinon interpolée sur S_BFE,
+ * sinon profondeur AO (BFE = sol + DEPTH).
+ */
+export function estimateFreeboard(
+  flood: FloodClass,
+  ground: { ft: number; datum: string } | null,
+  lineBfe: { bfeFt: number; method: "interpolated" | "nearest-line"; approximate: boolean; datum: string | null } | null,
+): Freeboard {
+  const groundFt = ground?.ft ?? null;
+  const groundDatum = ground?.datum ?? "NAVD88";
+
+  let bfeFt: number | null = null, bfeSource: Freeboard["bfeSource"] = null, bfeDatum: string | null = null;
+  if (flood.bfe != null) { bfeFt = flood.bfe; bfeSource = "static"; bfeDatum = flood.datum; }
+  else if (lineBfe) { bfeFt = lineBfe.bfeFt; bfeSource = lineBfe.method; bfeDatum = lineBfe.datum; }
+  else if (flood.depth != null && groundFt != null) { bfeFt = round1(groundFt + flood.depth); bfeSource = "depth"; bfeDatum = groundDatum; }
+
+  const norm = (d: string | null) => (d ?? "").toUpperCase().replace(/[\s_]/g, "");
+  const datumMismatch = bfeDatum != null && bfeSource !== "depth" && norm(bfeDatum) !== norm(groundDatum);
+  const approximate = bfeSource === lineBfe?.method && lineBfe.approximate;
+
+  if (groundFt == null || bfeFt == null) {
+    return {
+      groundFt, bfeFt, bfeSource, freeboardFt: null, datum: groundFt != null ? groundDatum : null, bfeDatum, datumMismatch, approximate,
+      note: groundFt == null ? "Ground elevation unavailable" : "No BFE published or interpolable here",
+    };
+  }
+
+  const freeboardFt = round1(groundFt - bfeFt);
+  let note = freeboardFt >= 0
+    ? `Ground ~${freeboardFt} ft above BFE`
+    : `Ground ~${Math.abs(freeboardFt)} ft below BFE`;
+  if (approximate) note += " (approximate: nearest BFE line, no line on the other side)";
+  if (datumMismatch) note += ` (BFE in ${bfeDatum}, ground in ${groundDatum} — convert before use)`;
+
+  return { groundFt, bfeFt, bfeSource, freeboardFt, datum: groundDatum, bfeDatum, datumMismatch, approximate, note };
+}
+
+// ---------- Élévation du niveau marin (scénarios SLR Viewer 0–10 ft) ----------
+/** Projections NOAA 2022 (élévation moyenne globale par rapport à 2000, ft) : scénarios Intermediate et High */
+export const SLR_PROJECTIONS_FT = {
+  intermediate: { 2050: 0.8, 2100: 3.3 },
+  high: { 2050: 1.1, 2100: 6.6 },
+} as const;
+type SlrProjection = keyof typeof SLR_PROJECTIONS_FT;
+
+export type SlrClass = {
+  level: RiskLevel;
+  lowestFt: number | null;     // plus faible scénario (ft au-dessus de MHHW) qui submerge le point
+  reachedBy: Record<SlrProjection, 2050 | 2100 | null>; // première échéance où la projection atteint ce scénario
+  projections: typeof SLR_PROJECTIONS_FT;
+  note: string;
+};
+
+/** Scénario submergeant le plus bas → échéances Intermediate / High et niveau (comme les zones V côtières).
+ *  `unavailableFt` : scénario inférieur en échec → niveau indéterminé. */
+export function classifySlr(lowestFt: number | null, unavailableFt: number | null = null): SlrClass {
+  const reached = (p: SlrProjection): 2050 | 2100 | null =>
+    lowestFt == null ? null : lowestFt <= SLR_PROJECTIONS_FT[p][2050] ? 2050 : lowestFt <= SLR_PROJECTIONS_FT[p][2100] ? 2100 : null;
+  const reachedBy = { intermediate: reached("intermediate"), high: reached("high") };
+
+  let level: RiskLevel, note: string;
+  if (unavailableFt != null) { level = "Undetermined"; note = `Undetermined: ${unavailableFt} ft scenario unavailable`; }
+  else if (lowestFt == null) { level = "Very Low"; note = "Not inundated up to 10 ft of sea level rise (or outside the viewer coverage)"; }
+  else if (lowestFt === 0) { level = "Very High"; note = "Inundated at today's high tide (MHHW)"; }
+  else if (reachedBy.intermediate === 2050) { level = "Very High"; note = `Inundated at ${lowestFt} ft — reached by 2050 (Intermediate)`; }
+  else if (reachedBy.intermediate === 2100) { level = "High"; note = `Inundated at ${lowestFt} ft — reached by 2100 (Intermediate)`; }
+  else if (reachedBy.high === 2100) { level = "Moderate"; note = `Inundated at ${lowestFt} ft — reached by 2100 under the High scenario only`; }
+  else { level = "Low"; note = `Inundated at ${lowestFt} ft — beyond 2100 projections`; }
+
+  return { level, lowestFt, reachedBy, projections: SLR_PROJECTIONS_FT, note };
+}
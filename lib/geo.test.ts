@@ -0,0 +1,24 @@
+// lib/geo.test.ts — franchissements segment / arêtes et longueur de tracé
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { crossingParams, lineLengthM } from "@/lib/geo";
+
+const square = [[[1, -1], [3, -1], [3, 1], [1, 1], [1, -1]]];
+
+test("crossingParams: parameters where the segment crosses ring edges", () => {
+  assert.deepEqual(crossingParams([0, 0], [4, 0], square).sort(), [0.25, 0.75]);
+  assert.deepEqual(crossingParams([2, 0], [4, 0], square), [0.5]);
+});
+
+test("crossingParams: no crossing at the segment ends, on parallel edges or outside", () => {
+  assert.deepEqual(crossingParams([1, 0], [3, 0], square), []);        // extrémités sur les arêtes
+  assert.deepEqual(crossingParams([1.5, 1], [2.5, 1], square), []);    // le long d’une arête
+  assert.deepEqual(crossingParams([0, 5], [4, 5], square), []);
+});
+
+test("lineLengthM sums the geodesic legs", () => {
+  // 0,01° de latitude ≈ 1112 m
+  const m = lineLengthM([[-90, 30], [-90, 30.01], [-90, 30.02]]);
+  assert.ok(Math.abs(m - 2224) < 5, `length ${m}`);
+  assert.equal(lineLengthM([[-90, 30]]), 0);
+});
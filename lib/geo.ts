@@ -0,0 +1,96 @@
+// lib/geo.ts — petits calculs géodésiques (WGS84, sphère moyenne)
+
+const R = 6371008.8; // rayon terrestre moyen (m)
+const rad = (d: number) => (d * Math.PI) / 180;
+const deg = (r: number) => (r * 180) / Math.PI;
+
+/** Distance orthodromique (m) entre deux points lon/lat. */
+export function haversineM(lon1: number, lat1: number, lon2: number, lat2: number): number {
+  const dLat = rad(lat2 - lat1);
+  const dLon = rad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * R * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/** Cap initial (0–360°, 0 = nord) du point 1 vers le point 2. */
+export function bearingDeg(lon1: number, lat1: number, lon2: number, lat2: number): number {
+  const y = Math.sin(rad(lon2 - lon1)) * Math.cos(rad(lat2));
+  const x = Math.cos(rad(lat1)) * Math.sin(rad(lat2)) - Math.sin(rad(lat1)) * Math.cos(rad(lat2)) * Math.cos(rad(lon2 - lon1));
+  return (deg(Math.atan2(y, x)) + 360) % 360;
+}
+
+/** Cap → rose à 8 directions (N, NE, E…). */
+export function compass8(bearing: number): string {
+  return ["N", "NE", "E", "SE", "S", "SW", "W", "NW"][Math.round(bearing / 45) % 8];
+}
+
+/** Point-dans-polygone (pair/impair sur tous les anneaux → gère les trous). */
+export function insideRings(lon: number, lat: number, rings: number[][][]): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i], [xj, yj] = ring[j];
+      if ((yi > lat) !== (yj > lat) && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Point le plus proche sur une suite de segments (anneaux ou lignes).
+ * Projection locale équirectangulaire autour du point de départ pour trouver le segment/paramètre,
+ * puis distance et cap géodésiques vers le point retenu.
+ */
+export function nearestOnPaths(lon: number, lat: number, paths: number[][][]) {
+  const kx = Math.cos(rad(lat));
+  let best: { lon: number; lat: number; d2: number } | null = null;
+
+  for (const path of paths) {
+    for (let i = 1; i < path.length; i++) {
+      const ax = (path[i - 1][0] - lon) * kx, ay = path[i - 1][1] - lat;
+      const bx = (path[i][0] - lon) * kx, by = path[i][1] - lat;
+      const dx = bx - ax, dy = by - ay;
+      const len2 = dx * dx + dy * dy;
+      const t = len2 > 0 ? Math.max(0, Math.min(1, -(ax * dx + ay * dy) / len2)) : 0;
+      const px = ax + t * dx, py = ay + t * dy;
+      const d2 = px * px + py * py;
+      if (!best || d2 < best.d2) best = { lon: lon + px / kx, lat: lat + py, d2 };
+    }
+  }
+  if (!best) return null;
+  return {
+    lon: best.lon,
+    lat: best.lat,
+    distanceM: haversineM(lon, lat, best.lon, best.lat),
+    bearing: bearingDeg(lon, lat, best.lon, best.lat),
+  };
+}
+
+/**
+ * Paramètres t ∈ ]0,1[ où le segment a→b coupe une arête des chemins (anneaux ou lignes).
+ * Calcul plan en lon/lat : t est invariant par l'échelle locale, suffisant pour découper.
+ */
+export function crossingParams(a: number[], b: number[], paths: number[][][]): number[] {
+  const out: number[] = [];
+  const rx = b[0] - a[0], ry = b[1] - a[1];
+  for (const path of paths) {
+    for (let i = 1; i < path.length; i++) {
+      const [px, py] = path[i - 1];
+      const sx = path[i][0] - px, sy = path[i][1] - py;
+      const den = rx * sy - ry * sx;
+      if (den === 0) continue; // parallèles
+      const qx = px - a[0], qy = py - a[1];
+      const t = (qx * sy - qy * sx) / den;
+      const u = (qx * ry - qy * rx) / den;
+      if (t > 0 && t < 1 && u >= 0 && u <= 1) out.push(t);
+    }
+  }
+  return out;
+}
+
+/** Longueur géodésique (m) d'une polyligne. */
+export function lineLengthM(coords: number[][]): number {
+  let m = 0;
+  for (let i = 1; i < coords.length; i++) m += haversineM(coords[i - 1][0], coords[i - 1][1], coords[i][0], coords[i][1]);
+  return m;
+}
@@ -0,0 +1,50 @@
+// lib/geocode.ts — géocode interne pour les routes serveur
+import { NextRequest } from "next/server";
+
+/** Géocode interne via /api/geocode (même domaine) — permet ?address= */
+export async function geocodeFromAddress(req: NextRequest, address: string) {
+  const origin = new URL(req.url).origin;
+  const url = `${origin}/api/geocode?address=${encodeURIComponent(address)}`;
+  const r = await fetch(url, { cache: "no-store" });
+  if (!r.ok) throw new Error(`geocode failed: ${r.status}`);
+  const j = await r.json();
+  if (!j || typeof j.lat !== "number" || typeof j.lon !== "number") {
+    throw new Error("geocode returned invalid lat/lon");
+  }
+  return { lat: j.lat as number, lon: j.lon as number, geocode: j };
+}
+
+export type Geoids = { tractGeoid: string | null; countyGeoid: string | null };
+
+/** Lit lat/lon (ou address=) d’une requête ; renvoie une Response 400 si invalide. */
+export async function pointFromRequest(req: NextRequest): Promise<
+  { lat: number; lon: number; geocode: any; geoids: Geoids; error?: undefined } | { error: Response }
+> {
+  const u = new URL(req.url);
+  const lat = u.searchParams.get("lat");
+  const lon = u.searchParams.get("lon");
+  const address = u.searchParams.get("address");
+
+  let latNum: number, lonNum: number;
+  let geocode: any = null;
+  try {
+    if (address && (!lat || !lon)) {
+      const g = await geocodeFromAddress(req, address);
+      latNum = g.lat; lonNum = g.lon; geocode = g.geocode;
+    } else {
+      latNum = Number(lat); lonNum = Number(lon);
+    }
+  } catch (e: any) {
+    return { error: Response.json({ error: e?.message || "geocode error" }, { status: 400 }) };
+  }
+
+  if ((!address && (!lat || !lon)) || !Number.isFinite(latNum) || !Number.isFinite(lonNum)) {
+    return { error: Response.json({ error: "Missing lat/lon" }, { status: 400 }) };
+  }
+  // GEOID explicites (tract=, county=) sinon ceux du géocodeur Census
+  const geoids: Geoids = {
+    tractGeoid: u.searchParams.get("tract") || geocode?.tractGeoid || null,
+    countyGeoid: u.searchParams.get("county") || geocode?.countyGeoid || null,
+  };
+  return { lat: latNum, lon: lonNum, geocode, geoids };
+}
@@ -0,0 +1,73 @@
+// lib/hurdat.test.ts — lecture HURDAT2, options bornées et passages de tempêtes autour d’un site
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, unlinkSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+
+const fix = (lat: string, lon: string, status: string, wind: number) =>
+  `20050829, 1200,  , ${status}, ${lat}, ${lon}, ${wind},  950,`;
+const ATLANTIC = [
+  // Cat 4 qui passe sur le site (29.5N, 90.0W)
+  "AL092005,            TESTA,      3,",
+  fix("28.0N", "90.0W", "HU", 130), fix("29.0N", "90.0W", "HU", 120), fix("31.0N", "90.0W", "TS", 50),
+  // points à 6 h hors rayon, segment sur le site : vent interpolé 80 kt → Cat 1
+  "AL042010,            TESTB,      2,",
+  fix("28.5N", "90.0W", "HU", 70), fix("30.5N", "90.0W", "HU", 90),
+  // tempête tropicale à ~30 mi (0,5° de longitude)
+  "AL031985,            TESTC,      2,",
+  fix("29.0N", "89.5W", "TS", 50), fix("30.0N", "89.5W", "TS", 45),
+  // antérieure à since
+  "AL011940,          UNNAMED,      1,",
+  fix("29.5N", "90.0W", "HU", 100),
+  // hors rayon
+  "AL021999,            TESTD,      1,",
+  fix("29.5N", "80.0W", "HU", 140),
+].join("\n");
+
+const dir = mkdtempSync(path.join(tmpdir(), "hurdat2-"));
+process.env.HURDAT2_DIR = dir;
+writeFileSync(path.join(dir, "hurdat2-atlantic.txt"), ATLANTIC);
+after(() => rmSync(dir, { recursive: true, force: true }));
+// HURDAT2_DIR est lu au chargement du module : import après la VAR d’env
+const load = () => import("@/lib/hurdat");
+
+test("parseHurdat2: header lines, signed coordinates, year and bbox", async () => {
+  const { parseHurdat2 } = await load();
+  const storms = parseHurdat2(ATLANTIC, "Atlantic");
+  assert.deepEqual(storms.map(s => [s.id, s.name, s.year]), [
+    ["AL092005", "TESTA", 2005], ["AL042010", "TESTB", 2010], ["AL031985", "TESTC", 1985],
+    ["AL011940", "UNNAMED", 1940], ["AL021999", "TESTD", 1999],
+  ]);
+  assert.deepEqual(storms[0].fixes[1], { lon: -90, lat: 29, windKt: 120, status: "HU" });
+  assert.deepEqual(storms[0].bbox, [-90, 28, -90, 31]);
+});
+
+test("hurricaneHistoryOptions: bounded values, invalid ones fall back to the defaults", async () => {
+  const { hurricaneHistoryOptions, HURRICANE_HISTORY_DEFAULTS } = await load();
+  assert.deepEqual(hurricaneHistoryOptions(null, null), HURRICANE_HISTORY_DEFAULTS);
+  assert.deepEqual(hurricaneHistoryOptions("1000", "1851"), { radiusMi: 300, since: 1851 });
+  assert.deepEqual(hurricaneHistoryOptions("0", "1850"), HURRICANE_HISTORY_DEFAULTS);
+});
+
+test("hurricaneHistory: storms in the radius by category, most recent first", async () => {
+  const { hurricaneHistory } = await load();
+  const { history, error } = await hurricaneHistory(-90, 29.5, { radiusMi: 50, since: 1950 });
+  assert.equal(error, undefined);
+  assert.deepEqual(history?.storms.map(s => [s.name, s.maxCategory, s.maxWindKt, s.closestMi]), [
+    ["TESTB", "Cat 1", 80, 0],
+    ["TESTA", "Cat 4", 120, 0],
+    ["TESTC", "TS", 50, 30.1],
+  ]);
+  assert.equal(history?.hurricanes, 2);
+  assert.equal(history?.through, 2010);
+  assert.deepEqual(history?.basins.map(b => b.missing), [false, true]);
+});
+
+test("hurricaneHistory: error when no basin file is present", async () => {
+  const { hurricaneHistory } = await load();
+  unlinkSync(path.join(dir, "hurdat2-atlantic.txt"));
+  const { history, error } = await hurricaneHistory(-90, 29.5, { radiusMi: 50, since: 1950 });
+  assert.equal(history, null);
+  assert.match(error ?? "", /HURDAT2 data files not found/);
+});
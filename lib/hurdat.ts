@@ -0,0 +1,198 @@
+// lib/hurdat.ts — historique des trajectoires cycloniques autour du site (NOAA HURDAT2, fichiers embarqués)
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { haversineM, nearestOnPaths } from "@/lib/geo";
+
+// Dossier des fichiers HURDAT2 (mis à jour par `npm run data:hurdat2`) — remplaçable via la VAR d’env
+export const HURDAT2_DIR = process.env.HURDAT2_DIR || path.join(process.cwd(), "data", "hurdat2");
+const BASINS = [
+  { basin: "Atlantic", file: "hurdat2-atlantic.txt" },
+  { basin: "Northeast Pacific", file: "hurdat2-nepac.txt" },
+] as const;
+
+export const HURRICANE_HISTORY_DEFAULTS = { radiusMi: 50, since: 1950 };
+const MAX_RADIUS_MI = 300;
+const FIRST_YEAR = 1851;
+const M_PER_MI = 1609.344;
+
+/** Catégories Saffir-Simpson (vent soutenu 1 min, kt) + stades tropicaux ; "Other" = extratropical / bas. */
+export const STORM_CATEGORIES = ["Cat 5", "Cat 4", "Cat 3", "Cat 2", "Cat 1", "TS", "TD", "Other"] as const;
+export type StormCategory = (typeof STORM_CATEGORIES)[number];
+const TROPICAL = new Set(["HU", "TS", "TD", "SS", "SD"]);
+
+function categoryOf(status: string, windKt: number | null): StormCategory {
+  if (!TROPICAL.has(status) || windKt == null) return "Other";
+  if (windKt >= 137) return "Cat 5";
+  if (windKt >= 113) return "Cat 4";
+  if (windKt >= 96) return "Cat 3";
+  if (windKt >= 83) return "Cat 2";
+  if (windKt >= 64) return "Cat 1";
+  return windKt >= 34 ? "TS" : "TD";
+}
+const catRank = (c: StormCategory) => STORM_CATEGORIES.length - STORM_CATEGORIES.indexOf(c);
+
+type Fix = { lon: number; lat: number; windKt: number | null; status: string };
+type Storm = { id: string; basin: string; name: string; year: number; fixes: Fix[]; bbox: [number, number, number, number] };
+
+export type StormPass = {
+  id: string;                    // ex. AL092011
+  name: string;
+  year: number;
+  basin: string;
+  closestMi: number;             // plus courte distance trajectoire ↔ site
+  maxCategory: StormCategory;    // pire catégorie dans le rayon
+  maxWindKt: number | null;
+};
+
+export type HurricaneHistory = {
+  radiusMi: number;
+  since: number;
+  through: number | null;        // dernière année présente dans les fichiers
+  total: number;
+  hurricanes: number;            // Cat 1+
+  byCategory: Array<{ category: StormCategory; count: number }>;
+  storms: StormPass[];           // plus récentes d’abord
+  basins: Array<{ basin: string; storms: number; through: number | null; missing: boolean }>;
+  source: string;
+};
+
+/** "28.0N" / "94.8W" → degrés signés */
+function coord(s: string): number {
+  const v = Number(s.slice(0, -1));
+  return /[SW]$/i.test(s) ? -v : v;
+}
+
+/** Format HURDAT2 : ligne d’en-tête `AL092011, IRENE, 39,` puis N lignes de points à 6 h. */
+export function parseHurdat2(text: string, basin: string): Storm[] {
+  const out: Storm[] = [];
+  const lines = text.split(/\r?\n/);
+  for (let i = 0; i < lines.length; i++) {
+    const h = lines[i].split(",").map(x => x.trim());
+    if (!/^[A-Z]{2}\d{6}$/.test(h[0] ?? "")) continue;
+    const n = Number(h[2]);
+    const fixes: Fix[] = [];
+    for (const line of lines.slice(i + 1, i + 1 + n)) {
+      const f = line.split(",").map(x => x.trim());
+      const lat = coord(f[4] ?? ""), lon = coord(f[5] ?? ""), w = Number(f[6]);
+      if (!Number.isFinite(lat) || !Number.isFinite(lon)) continue;
+      fixes.push({ lon, lat, windKt: Number.isFinite(w) && w >= 0 ? w : null, status: f[3] ?? "" });
+    }
+    i += n;
+    if (!fixes.length) continue;
+    const xs = fixes.map(f => f.lon), ys = fixes.map(f => f.lat);
+    out.push({
+      id: h[0], basin, name: h[1] || "UNNAMED", year: Number(h[0].slice(4)), fixes,
+      bbox: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)],
+    });
+  }
+  return out;
+}
+
+// Cache process par fichier, relu quand le fichier change (mtime)
+type Loaded = { storms: Storm[]; mtimeMs: number } | { missing: true; mtimeMs: 0 };
+const g = globalThis as any;
+const cache: Map<string, Loaded> = (g.__hurdatCache ??= new Map());
+
+async function loadBasin(basin: string, file: string): Promise<Storm[] | null> {
+  const p = path.join(HURDAT2_DIR, file);
+  const st = await stat(p).catch(() => null);
+  if (!st) { cache.set(p, { missing: true, mtimeMs: 0 }); return null; }
+  const hit = cache.get(p);
+  if (hit && !("missing" in hit) && hit.mtimeMs === st.mtimeMs) return hit.storms;
+  const storms = parseHurdat2(await readFile(p, "utf8"), basin);
+  cache.set(p, { storms, mtimeMs: st.mtimeMs });
+  return storms;
+}
+
+/** historyRadiusMi / historySince bornés ; valeurs invalides → défauts. */
+export function hurricaneHistoryOptions(radius: string | null, since: string | null) {
+  const r = Number(radius), y = Number(since);
+  return {
+    radiusMi: Number.isFinite(r) && r > 0 ? Math.min(r, MAX_RADIUS_MI) : HURRICANE_HISTORY_DEFAULTS.radiusMi,
+    since: Number.isInteger(y) && y >= FIRST_YEAR ? y : HURRICANE_HISTORY_DEFAULTS.since,
+  };
+}
+
+/**
+ * Passage d’une trajectoire dans le rayon : distance minimale sur les segments (pas seulement aux points à 6 h),
+ * intensité max parmi les points dans le rayon et, entre deux points, vent interpolé au plus proche du site.
+ */
+function stormPass(s: Storm, lon: number, lat: number, radiusM: number): StormPass | null {
+  let closest = Infinity, best: { cat: StormCategory; wind: number | null } | null = null;
+  const consider = (cat: StormCategory, wind: number | null) => {
+    if (!best || catRank(cat) > catRank(best.cat) || (cat === best.cat && (wind ?? 0) > (best.wind ?? 0))) best = { cat, wind };
+  };
+
+  const fx = s.fixes;
+  for (let i = 0; i < fx.length; i++) {
+    const a = fx[i];
+    const d = haversineM(lon, lat, a.lon, a.lat);
+    closest = Math.min(closest, d);
+    if (d <= radiusM) consider(categoryOf(a.status, a.windKt), a.windKt);
+    if (i === 0) continue;
+    const p = fx[i - 1];
+    const near = nearestOnPaths(lon, lat, [[[p.lon, p.lat], [a.lon, a.lat]]]);
+    if (!near) continue;
+    closest = Math.min(closest, near.distanceM);
+    if (near.distanceM > radiusM) continue;
+    const seg = haversineM(p.lon, p.lat, a.lon, a.lat);
+    const t = seg > 0 ? haversineM(p.lon, p.lat, near.lon, near.lat) / seg : 0;
+    const wind = p.windKt != null && a.windKt != null ? Math.round(p.windKt + (a.windKt - p.windKt) * t) : null;
+    // stade au plus proche = celui du point le plus proche dans le temps
+    consider(categoryOf(t < 0.5 ? p.status : a.status, wind), wind);
+  }
+  if (!best) return null;
+  const b = best as { cat: StormCategory; wind: number | null };
+  return {
+    id: s.id, name: s.name, year: s.year, basin: s.basin,
+    closestMi: Math.round((closest / M_PER_MI) * 10) / 10,
+    maxCategory: b.cat, maxWindKt: b.wind,
+  };
+}
+
+/** Tempêtes HURDAT2 passées dans le rayon depuis `since`, résumées par catégorie. */
+export async function hurricaneHistory(
+  lon: number, lat: number, opts: { radiusMi: number; since: number },
+): Promise<{ history: HurricaneHistory | null; error?: string }> {
+  try {
+    const radiusM = opts.radiusMi * M_PER_MI;
+    // pré-filtre bbox : marge en degrés (1° lat ≈ 69 mi, lon resserrée par cos(lat))
+    const dLat = opts.radiusMi / 69 + 0.1;
+    const dLon = dLat / Math.max(0.2, Math.cos((lat * Math.PI) / 180));
+
+    const basins: HurricaneHistory["basins"] = [];
+    const storms: StormPass[] = [];
+    for (const b of BASINS) {
+      const all = await loadBasin(b.basin, b.file);
+      const through = all?.length ? Math.max(...all.map(s => s.year)) : null;
+      basins.push({ basin: b.basin, storms: all?.length ?? 0, through, missing: !all });
+      for (const s of all ?? []) {
+        if (s.year < opts.since) continue;
+        const [x0, y0, x1, y1] = s.bbox;
+        if (lon < x0 - dLon || lon > x1 + dLon || lat < y0 - dLat || lat > y1 + dLat) continue;
+        const pass = stormPass(s, lon, lat, radiusM);
+        if (pass) storms.push(pass);
+      }
+    }
+    if (basins.every(b => b.missing)) return { history: null, error: `HURDAT2 data files not found in ${HURDAT2_DIR}` };
+
+    storms.sort((a, b) => b.year - a.year || a.closestMi - b.closestMi);
+    const byCategory = STORM_CATEGORIES.map(category => ({ category, count: storms.filter(s => s.maxCategory === category).length }));
+    const years = basins.map(b => b.through).filter((y): y is number => y != null);
+    return {
+      history: {
+        radiusMi: opts.radiusMi,
+        since: opts.since,
+        through: years.length ? Math.max(...years) : null,
+        total: storms.length,
+        hurricanes: storms.filter(s => s.maxCategory.startsWith("Cat")).length,
+        byCategory,
+        storms,
+        basins,
+        source: "NOAA NHC HURDAT2 (Atlantic, Northeast Pacific)",
+      },
+    };
+  } catch (e: any) {
+    return { history: null, error: e?.message || "HURDAT2 load failed" };
+  }
+}
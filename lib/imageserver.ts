@@ -0,0 +1,18 @@
+// lib/imageserver.ts — lecture d’un pixel d’ImageServer ArcGIS (identify) au point
+
+/** Valeur du pixel au point (identify) ; null si NoData. `serviceUrl` = …/<service>/ImageServer */
+export async function identifyPixel(serviceUrl: string, lon: number, lat: number): Promise<{ url: string; value: number | null }> {
+  const url = `${serviceUrl.replace(/\/+$/, "")}/identify?${new URLSearchParams({
+    f: "json",
+    geometry: JSON.stringify({ x: lon, y: lat, spatialReference: { wkid: 4326 } }),
+    geometryType: "esriGeometryPoint",
+    returnGeometry: "false",
+    returnCatalogItems: "false",
+  })}`;
+  const r = await fetch(url, { headers: { accept: "application/json" }, cache: "no-store" });
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok || !j || j.error) throw new Error(j?.error?.message || `identify failed (${r.status})`);
+  const raw = j.value ?? j.properties?.Values?.[0];
+  const v = Number(raw);
+  return { url, value: raw == null || raw === "" || /nodata/i.test(String(raw)) || !Number.isFinite(v) ? null : v };
+}
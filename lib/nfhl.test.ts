@@ -0,0 +1,38 @@
+// lib/nfhl.test.ts — BFE au point à partir des lignes S_BFE (interpolation entre lignes encadrantes)
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { bfeFromLines } from "@/lib/nfhl";
+
+const [lon, lat] = [-90, 30];
+/** Ligne S_BFE nord-sud à la longitude `x`. */
+const line = (x: number, elev: number, attrs: Record<string, unknown> = {}) => ({
+  attributes: { ELEV: elev, LEN_UNIT: "Feet", V_DATUM: "NAVD88", ...attrs },
+  geometry: { paths: [[[x, lat - 0.01], [x, lat + 0.01]]] },
+});
+
+test("bfeFromLines: interpolates between lines on either side, weighted by distance", () => {
+  // ouest à ~48 m (12 ft), est à ~96 m (10 ft), ligne plus lointaine ignorée
+  const bfe = bfeFromLines(lon, lat, [line(-89.999, 10), line(-90.0005, 12), line(-89.99, 5)]);
+  assert.equal(bfe?.method, "interpolated");
+  assert.equal(bfe?.approximate, false);
+  assert.equal(bfe?.bfeFt, 11.3);
+  assert.deepEqual(bfe?.lines.map(l => l.elevFt), [12, 10]);
+});
+
+test("bfeFromLines: lines on one side only give the nearest line, flagged approximate", () => {
+  const bfe = bfeFromLines(lon, lat, [line(-89.999, 10), line(-89.998, 9)]);
+  assert.equal(bfe?.method, "nearest-line");
+  assert.equal(bfe?.approximate, true);
+  assert.equal(bfe?.bfeFt, 10);
+});
+
+test("bfeFromLines: a point on a line takes its elevation, not approximate", () => {
+  const bfe = bfeFromLines(lon, lat, [line(lon, 7.25), line(-90.001, 9)]);
+  assert.deepEqual([bfe?.bfeFt, bfe?.method, bfe?.approximate], [7.3, "nearest-line", false]);
+});
+
+test("bfeFromLines: converts meters and drops -9999 placeholders", () => {
+  const bfe = bfeFromLines(lon, lat, [line(-90.0005, -9999), line(-89.999, 3, { LEN_UNIT: "Meters" })]);
+  assert.equal(bfe?.bfeFt, 9.8);
+  assert.equal(bfeFromLines(lon, lat, [line(-89.999, -9999)]), null);
+});
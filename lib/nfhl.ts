@@ -0,0 +1,577 @@
+// lib/nfhl.ts — requêtes FEMA NFHL (MapServer) partagées par les routes flood
+import { classifyFlood, type FloodClass } from "@/lib/flood";
+import { compass8, insideRings, nearestOnPaths } from "@/lib/geo";
+import { queryByPolygon, samplePolygons, type ParcelInput } from "@/lib/polygon";
+
+const UA =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124 Safari/537.36 RiskChecker/1.0";
+
+// Base NFHL (tu peux aussi remettre l’ancienne via la VAR d’env)
+export const NFHL_BASE = (process.env.NFHL_BASE ||
+  "https://hazards.fema.gov/arcgis/rest/services/public/NFHL"
+).replace(/\/+$/, "");
+
+/** GET JSON (corps lu une seule fois) ; page d'erreur HTML ou échec réseau → `data.error`, jamais d'exception. */
+export async function getJson(url: string): Promise<{ ok: boolean; data: any }> {
+  let r: Response;
+  try {
+    r = await fetch(url, { headers: { accept: "application/json", "user-agent": UA }, cache: "no-store" });
+  } catch (e: any) {
+    return { ok: false, data: { error: { message: e?.message || "NFHL fetch failed" } } };
+  }
+  const text = await r.text().catch(() => "");
+  try {
+    return { ok: r.ok, data: JSON.parse(text) };
+  } catch {
+    return { ok: false, data: { __nonjson: true, text: text.slice(0, 500), error: { message: `NFHL returned non-JSON (${r.status})` } } };
+  }
+}
+
+/** POST formulaire → JSON (géométries trop longues pour une URL) ; mêmes garanties que `getJson`. */
+export async function postJson(url: string, form: Record<string, string>): Promise<{ ok: boolean; data: any }> {
+  let r: Response;
+  try {
+    r = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded", accept: "application/json", "user-agent": UA },
+      body: new URLSearchParams(form),
+      cache: "no-store",
+    });
+  } catch (e: any) {
+    return { ok: false, data: { error: { message: e?.message || "ArcGIS fetch failed" } } };
+  }
+  const text = await r.text().catch(() => "");
+  try {
+    const data = JSON.parse(text);
+    return { ok: r.ok && !data?.error, data };
+  } catch {
+    return { ok: false, data: { __nonjson: true, text: text.slice(0, 500), error: { message: `ArcGIS returned non-JSON (${r.status})` } } };
+  }
+}
+
+// ---------- Catalogue des layers (découverte + cache TTL) ----------
+// FEMA renumérote parfois le MapServer : on résout les IDs par nom, pas en dur.
+const CATALOG_TTL_MS = Number(process.env.NFHL_CATALOG_TTL_MS ?? 60 * 60 * 1000);
+
+/** Layers NFHL connus : libellés reconnus (nom du layer ou table FIRM DB) + ID de repli. */
+export const NFHL_WELL_KNOWN = {
+  floodZones:     { names: ["FLOOD HAZARD ZONES", "S_FLD_HAZ_AR"], fallback: 28 },
+  firmPanels:     { names: ["FIRM PANELS", "S_FIRM_PAN"], fallback: 3 },
+  lomrs:          { names: ["LOMRS", "S_LOMR"], fallback: 1 },
+  lomas:          { names: ["LOMAS"], fallback: 2 },
+  bfeLines:       { names: ["BASE FLOOD ELEVATIONS", "S_BFE"], fallback: 16 },
+  crossSections:  { names: ["CROSS-SECTIONS", "CROSS SECTIONS", "S_XS"], fallback: 14 },
+  levees:         { names: ["LEVEES", "S_LEVEE"], fallback: 23 },
+  jurisdictions:  { names: ["POLITICAL JURISDICTIONS", "S_POL_AR"], fallback: 22 },
+} as const;
+export type NfhlLayerKey = keyof typeof NFHL_WELL_KNOWN;
+
+export type NfhlCatalog = {
+  base: string;
+  fetchedAt: string | null;     // null = MapServer injoignable → IDs de repli
+  layers: Array<{ id: number; name: string; type: string | null; geometryType: string | null }>;
+  wellKnown: Record<NfhlLayerKey, { id: number; name: string | null; discovered: boolean }>;
+  error?: string;
+};
+
+const g = globalThis as any;
+const catalogCache: { entry?: { at: number; promise: Promise<NfhlCatalog> } } = g.__nfhlCatalogCache ??= {};
+
+function buildCatalog(layers: NfhlCatalog["layers"], fetchedAt: string | null, error?: string): NfhlCatalog {
+  const norm = (x: string) => x.toUpperCase().trim();
+  const wellKnown = {} as NfhlCatalog["wellKnown"];
+  for (const [key, def] of Object.entries(NFHL_WELL_KNOWN) as Array<[NfhlLayerKey, (typeof NFHL_WELL_KNOWN)[NfhlLayerKey]]>) {
+    // nom exact d'abord, puis « contient »
+    const found =
+      layers.find(l => def.names.some(n => norm(l.name) === n)) ??
+      layers.find(l => def.names.some(n => norm(l.name).includes(n)));
+    wellKnown[key] = found
+      ? { id: found.id, name: found.name, discovered: true }
+      : { id: def.fallback, name: null, discovered: false };
+  }
+  return { base: NFHL_BASE, fetchedAt, layers, wellKnown, ...(error ? { error } : {}) };
+}
+
+/** Lit la liste `layers` du MapServer une fois par TTL (requêtes simultanées partagées, échecs non cachés). */
+export function nfhlCatalog(): Promise<NfhlCatalog> {
+  const hit = catalogCache.entry;
+  if (hit && Date.now() - hit.at < CATALOG_TTL_MS) return hit.promise;
+
+  const promise = (async () => {
+    try {
+      const meta = await getJson(`${NFHL_BASE}/MapServer?f=pjson`);
+      const raw: any[] = meta.data?.layers ?? [];
+      if (!meta.ok || !raw.length) throw new Error(meta.data?.error?.message || "NFHL MapServer returned no layers");
+      const layers = raw
+        .filter(l => Number.isFinite(l?.id))
+        .map(l => ({ id: Number(l.id), name: String(l.name ?? ""), type: l.type ?? null, geometryType: l.geometryType ?? null }));
+      return buildCatalog(layers, new Date().toISOString());
+    } catch (e: any) {
+      catalogCache.entry = undefined; // pas de cache des échecs
+      return buildCatalog([], null, e?.message || "NFHL discovery failed");
+    }
+  })();
+  catalogCache.entry = { at: Date.now(), promise };
+  return promise;
+}
+
+/** ID courant d'un layer NFHL connu (repli documenté si la découverte échoue). */
+export async function nfhlLayerId(key: NfhlLayerKey): Promise<number> {
+  return (await nfhlCatalog()).wellKnown[key].id;
+}
+
+export function envelopeAround(lon: number, lat: number, eps = 0.03) {
+  return { xmin: lon - eps, ymin: lat - eps, xmax: lon + eps, ymax: lat + eps, spatialReference: { wkid: 4326 } };
+}
+
+export const mkQuery = (layerId: number, p: Record<string, string>) =>
+  `${NFHL_BASE}/MapServer/${layerId}/query?${new URLSearchParams(p)}`;
+export const mkIdentify = (p: Record<string, string>) =>
+  `${NFHL_BASE}/MapServer/identify?${new URLSearchParams(p)}`;
+
+export type FloodZonesResult = {
+  data: { features: Array<{ attributes: Record<string, any> }>; [k: string]: any };
+  tries: any[];
+  layerId: number;
+  error?: { message: string; details: any };
+};
+
+// Cache court des zones au point : /api/risk interroge flood, surge et sealevel au même point en parallèle
+const ZONES_TTL_MS = Number(process.env.NFHL_ZONES_TTL_MS ?? 60 * 1000);
+const ZONES_MAX = 200;
+const zonesCache: Map<string, { at: number; promise: Promise<FloodZonesResult> }> = g.__nfhlZonesCache ??= new Map();
+
+/** Zones S_FLD_HAZ_AR au point, une cascade par point et par TTL (requêtes simultanées partagées, erreurs non cachées). */
+export function queryFloodZones(lon: number, lat: number): Promise<FloodZonesResult> {
+  const key = `${lon.toFixed(6)},${lat.toFixed(6)}`;
+  const hit = zonesCache.get(key);
+  if (hit && Date.now() - hit.at < ZONES_TTL_MS) return hit.promise;
+
+  const promise = fetchFloodZones(lon, lat).then(
+    res => { if (res.error) zonesCache.delete(key); return res; },
+    e => { zonesCache.delete(key); throw e; },
+  );
+  zonesCache.delete(key);
+  zonesCache.set(key, { at: Date.now(), promise });
+  // Map = ordre d'insertion → on évince les plus anciennes
+  while (zonesCache.size > ZONES_MAX) zonesCache.delete(zonesCache.keys().next().value!);
+  return promise;
+}
+
+/** Cascade : point (buffers 0/5/15/40 m) → envelope → identify. */
+async function fetchFloodZones(lon: number, lat: number): Promise<FloodZonesResult> {
+  const layerId = await nfhlLayerId("floodZones");
+  const tries: any[] = [];
+
+  const common = {
+    f: "json",
+    where: "1=1",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    returnGeometry: "false",
+    outFields: "FLD_ZONE,ZONE_SUBTY,SFHA_TF,BFE,STATIC_BFE,DEPTH,V_DATUM,ZONE,ZONE_SUBTYPE",
+  };
+
+  const point = { x: lon, y: lat, spatialReference: { wkid: 4326 } };
+  let data: any = null;
+
+  // 1) point avec buffers 0 / 5 / 15 / 40 m
+  for (const dist of [0, 5, 15, 40]) {
+    const q = mkQuery(layerId, {
+      ...common,
+      geometryType: "esriGeometryPoint",
+      geometry: JSON.stringify(point),
+      ...(dist > 0 ? { distance: String(dist), units: "esriSRUnit_Meter" } : {}),
+    });
+    const r = await getJson(q);
+    tries.push({ step: `query-point-${dist}m`, url: q, err: r.data?.error, count: r.data?.features?.length ?? 0 });
+    if (!r.data?.error && r.data?.features?.length) { data = r.data; break; }
+  }
+
+  // 2) envelope
+  if (!data) {
+    const env = { xmin: lon - 0.004, ymin: lat - 0.004, xmax: lon + 0.004, ymax: lat + 0.004, spatialReference: { wkid: 4326 } };
+    const q2 = mkQuery(layerId, { ...common, geometryType: "esriGeometryEnvelope", geometry: JSON.stringify(env) });
+    const r2 = await getJson(q2);
+    tries.push({ step: "query-envelope", url: q2, err: r2.data?.error, count: r2.data?.features?.length ?? 0 });
+    if (!r2.data?.error && r2.data?.features?.length) data = { ...r2.data, __fallbackEnvelope: env };
+  }
+
+  // 3) identify (tolérance)
+  if (!data) {
+    const env = envelopeAround(lon, lat, 0.01);
+    const p = {
+      f: "json",
+      sr: "4326",
+      geometryType: "esriGeometryPoint",
+      geometry: JSON.stringify(point),
+      mapExtent: JSON.stringify(env),
+      imageDisplay: "800,600,96",
+      tolerance: "6",
+      layers: `all:${layerId}`,
+      returnGeometry: "false",
+    };
+    const q3 = mkIdentify(p);
+    const r3 = await getJson(q3);
+    tries.push({ step: "identify", url: q3, err: r3.data?.error, count: r3.data?.results?.length ?? 0 });
+
+    if (!r3.data?.error && r3.data?.results?.length) {
+      data = {
+        features: r3.data.results.filter((x: any) => x?.attributes).map((x: any) => ({ attributes: x.attributes })),
+        __fromIdentify: true,
+      };
+    } else if (r3.data?.error) {
+      return {
+        data: { features: [] }, tries, layerId,
+        error: { message: r3.data.error?.message || "NFHL error", details: r3.data },
+      };
+    }
+  }
+
+  return { data: data ?? { features: [] }, tries, layerId };
+}
+
+// ---------- FIRM panel + communauté NFIP ----------
+export type FirmInfo = {
+  panel: string | null;           // FIRM_PAN (ex. "42017C0303J")
+  panelType: string | null;       // PANEL_TYP (printed / not printed…)
+  effectiveDate: string | null;   // EFF_DATE (YYYY-MM-DD)
+  dfirmId: string | null;
+  community: string | null;       // POL_NAME1 (S_POL_AR)
+  communityId: string | null;     // CID NFIP (6 chiffres)
+  mscUrl: string | null;          // panneau sur le FEMA Map Service Center
+};
+
+/** EFF_DATE NFHL (epoch ms ou texte) → YYYY-MM-DD */
+function nfhlDate(v: unknown): string | null {
+  if (v == null || v === "") return null;
+  const d = new Date(typeof v === "number" ? v : String(v));
+  return Number.isNaN(d.getTime()) ? null : d.toISOString().slice(0, 10);
+}
+
+const str = (v: unknown) => (v == null || String(v).trim() === "" ? null : String(v).trim());
+
+/** Features du layer au point (intersects, buffer optionnel en m, sans géométrie). */
+async function pointFeatures(layerId: number, lon: number, lat: number, outFields: string, distM = 0) {
+  const q = mkQuery(layerId, {
+    f: "json",
+    where: "1=1",
+    inSR: "4326",
+    geometryType: "esriGeometryPoint",
+    geometry: JSON.stringify({ x: lon, y: lat, spatialReference: { wkid: 4326 } }),
+    spatialRel: "esriSpatialRelIntersects",
+    ...(distM > 0 ? { distance: String(distM), units: "esriSRUnit_Meter" } : {}),
+    returnGeometry: "false",
+    outFields,
+  });
+  const r = await getJson(q);
+  const features: Array<Record<string, any>> = (r.data?.features ?? []).map((f: any) => f?.attributes).filter(Boolean);
+  return { url: q, err: r.data?.error, features };
+}
+
+/** Première feature du layer au point. */
+async function pointFeature(layerId: number, lon: number, lat: number, outFields: string) {
+  const r = await pointFeatures(layerId, lon, lat, outFields);
+  return { url: r.url, err: r.err, attrs: r.features[0] ?? null };
+}
+
+/** Panneau FIRM (S_FIRM_PAN) + juridiction NFIP (S_POL_AR) au point. */
+export async function queryFirmInfo(lon: number, lat: number): Promise<{ firm: FirmInfo | null; tries: any[] }> {
+  const [panLayer, polLayer] = await Promise.all([nfhlLayerId("firmPanels"), nfhlLayerId("jurisdictions")]);
+
+  const [pan, pol] = await Promise.all([
+    pointFeature(panLayer, lon, lat, "DFIRM_ID,FIRM_PAN,PANEL,SUFFIX,PANEL_TYP,EFF_DATE"),
+    pointFeature(polLayer, lon, lat, "POL_NAME1,POL_NAME2,CID,COMM_NO,ST_FIPS,CO_FIPS"),
+  ]);
+  const tries = [
+    { step: "firm-panel", layerId: panLayer, url: pan.url, err: pan.err, found: !!pan.attrs },
+    { step: "political-jurisdiction", layerId: polLayer, url: pol.url, err: pol.err, found: !!pol.attrs },
+  ];
+  if (!pan.attrs && !pol.attrs) return { firm: null, tries };
+
+  const p = pan.attrs ?? {};
+  const c = pol.attrs ?? {};
+  const panel = str(p.FIRM_PAN);
+  return {
+    firm: {
+      panel,
+      panelType: str(p.PANEL_TYP),
+      effectiveDate: nfhlDate(p.EFF_DATE),
+      dfirmId: str(p.DFIRM_ID),
+      community: str(c.POL_NAME1),
+      communityId: str(c.CID) ?? (c.ST_FIPS && c.COMM_NO ? `${c.ST_FIPS}${c.COMM_NO}` : null),
+      mscUrl: panel
+        ? `https://msc.fema.gov/portal/downloadProduct?productTypeID=FINAL_PRODUCT&productSubTypeID=FIRM_PANEL&productID=${encodeURIComponent(panel)}`
+        : `https://msc.fema.gov/portal/search?AddressQuery=${lat},${lon}`,
+    },
+    tries,
+  };
+}
+
+// ---------- LOMR / LOMA ----------
+export type MapAmendment = {
+  type: "LOMR" | "LOMA";
+  caseNumber: string | null;
+  effectiveDate: string | null;   // YYYY-MM-DD
+  status: string | null;          // STATUS (LOMR) / type de détermination (LOMA)
+};
+
+/** Premier attribut non vide parmi des noms candidats (insensible à la casse). */
+function pick(a: Record<string, any>, names: string[]): unknown {
+  const keys = Object.keys(a);
+  for (const n of names) {
+    const k = keys.find(k => k.toUpperCase() === n);
+    if (k && a[k] != null && String(a[k]).trim() !== "") return a[k];
+  }
+  return null;
+}
+
+/**
+ * LOMR (S_LOMR, polygones) contenant le point + LOMA (points) à ~50 m.
+ * Les LOMA étant des points d'ouvrage, un petit buffer est nécessaire.
+ */
+export async function queryAmendments(lon: number, lat: number): Promise<{ amendments: MapAmendment[]; tries: any[] }> {
+  const [lomrLayer, lomaLayer] = await Promise.all([nfhlLayerId("lomrs"), nfhlLayerId("lomas")]);
+
+  const [lomr, loma] = await Promise.all([
+    pointFeatures(lomrLayer, lon, lat, "*"),
+    pointFeatures(lomaLayer, lon, lat, "*", 50),
+  ]);
+  const tries = [
+    { step: "lomr", layerId: lomrLayer, url: lomr.url, err: lomr.err, count: lomr.features.length },
+    { step: "loma", layerId: lomaLayer, url: loma.url, err: loma.err, count: loma.features.length },
+  ];
+
+  const amendments: MapAmendment[] = [
+    ...lomr.features.map(a => ({
+      type: "LOMR" as const,
+      caseNumber: str(pick(a, ["CASE_NO", "CASENUMBER", "CASE_NUMBER"])),
+      effectiveDate: nfhlDate(pick(a, ["EFF_DATE", "EFFECTIVE_DATE", "DATEENDED"])),
+      status: str(pick(a, ["STATUS", "LOMR_STAT"])),
+    })),
+    ...loma.features.map(a => ({
+      type: "LOMA" as const,
+      caseNumber: str(pick(a, ["CASENUMBER", "CASE_NO", "CASE_NUMBER"])),
+      effectiveDate: nfhlDate(pick(a, ["DATEENDED", "EFF_DATE", "DETERMINATIONDATE", "EFFECTIVE_DATE"])),
+      status: str(pick(a, ["STATUS", "DETERMINATIONTYPE", "OUTCOME", "PROJECTCATEGORY"])),
+    })),
+  ];
+  return { amendments, tries };
+}
+
+// ---------- SFHA la plus proche (zones X) ----------
+export type NearestZone = {
+  zone: string;                 // FLD_ZONE du polygone le plus proche
+  subtype: string | null;
+  distanceM: number;            // distance géodésique au bord (0 si le point est dedans)
+  bearing: number;              // cap depuis le point (°)
+  direction: string;            // N, NE, E…
+};
+
+export type NearestSfhaResult = {
+  sfha: NearestZone | null;     // zone A/V la plus proche
+  shadedX: NearestZone | null;  // zone X ombrée (0.2 %) la plus proche
+  searchedM: number;            // rayon de recherche atteint sans erreur (0 = recherche impossible)
+  truncated: boolean;           // limite d'enregistrements atteinte malgré la pagination : plus proche non garanti
+  tries: any[];
+};
+
+const SFHA_RADII_M = [250, 1000, 3000];
+const SFHA_PAGE_SIZE = 200;
+const SFHA_MAX_PAGES = 5;
+
+/**
+ * Cherche vers l'extérieur (buffers 250 m → 1 km → 3 km) les polygones A/V et X ombrée,
+ * géométrie incluse, puis calcule distance et cap au bord le plus proche.
+ */
+export async function queryNearestSfha(lon: number, lat: number, layerId?: number): Promise<NearestSfhaResult> {
+  const id = layerId ?? (await nfhlLayerId("floodZones"));
+  const tries: any[] = [];
+  let sfha: NearestZone | null = null;
+  let shadedX: NearestZone | null = null;
+  let searchedM = 0;
+
+  let truncated = false;
+
+  for (const dist of SFHA_RADII_M) {
+    // pagination (resultOffset) : en zone dense, la limite du service couperait le polygone le plus proche
+    const feats: any[] = [];
+    let failed = false, exceeded = false;
+    for (let page = 0; page < SFHA_MAX_PAGES; page++) {
+      const q = mkQuery(id, {
+        f: "json",
+        where: "SFHA_TF = 'T' OR ZONE_SUBTY LIKE '%0.2%'",
+        inSR: "4326",
+        outSR: "4326",
+        geometryType: "esriGeometryPoint",
+        geometry: JSON.stringify({ x: lon, y: lat, spatialReference: { wkid: 4326 } }),
+        spatialRel: "esriSpatialRelIntersects",
+        distance: String(dist),
+        units: "esriSRUnit_Meter",
+        returnGeometry: "true",
+        geometryPrecision: "6",
+        maxAllowableOffset: "0.00001", // ~1 m : allège les anneaux
+        resultOffset: String(page * SFHA_PAGE_SIZE),
+        resultRecordCount: String(SFHA_PAGE_SIZE),
+        outFields: "FLD_ZONE,ZONE_SUBTY,SFHA_TF",
+      });
+      const r = await getJson(q);
+      const got: any[] = r.data?.features ?? [];
+      tries.push({ step: `nearest-${dist}m-p${page}`, url: q, err: r.data?.error, count: got.length, exceeded: !!r.data?.exceededTransferLimit });
+      if (r.data?.error) { failed = true; break; }
+      feats.push(...got);
+      exceeded = !!r.data?.exceededTransferLimit;
+      if (!exceeded || !got.length) break;
+    }
+    if (failed) continue;
+    searchedM = dist;
+    truncated = exceeded;
+
+    for (const f of feats) {
+      const rings: number[][][] = f?.geometry?.rings ?? [];
+      const a = f?.attributes ?? {};
+      if (!rings.length) continue;
+      const near = nearestOnPaths(lon, lat, rings);
+      if (!near) continue;
+      const zone = String(a.FLD_ZONE ?? "").toUpperCase();
+      const isSfha = a.SFHA_TF === "T" || a.SFHA_TF === true || /^(A|V)/.test(zone);
+      const cur: NearestZone = {
+        zone,
+        subtype: str(a.ZONE_SUBTY),
+        distanceM: insideRings(lon, lat, rings) ? 0 : Math.round(near.distanceM),
+        bearing: Math.round(near.bearing),
+        direction: compass8(near.bearing),
+      };
+      if (isSfha) { if (!sfha || cur.distanceM < sfha.distanceM) sfha = cur; }
+      else if (!shadedX || cur.distanceM < shadedX.distanceM) shadedX = cur;
+    }
+    // rayon tronqué : ne pas élargir (un rayon plus grand serait encore plus coupé)
+    if ((sfha && shadedX) || truncated) break;
+  }
+
+  return { sfha, shadedX, searchedM, truncated, tries };
+}
+
+// ---------- BFE interpolée (S_BFE) ----------
+export type BfeEstimate = {
+  bfeFt: number;
+  method: "interpolated" | "nearest-line";
+  approximate: boolean;         // pas de ligne de l'autre côté du point : altitude de la ligne la plus proche
+  datum: string | null;         // V_DATUM des lignes (ex. NAVD88, NGVD29)
+  lines: Array<{ elevFt: number; distanceM: number }>;
+};
+
+/** Écart angulaire (0–180°) entre deux caps. */
+const bearingGap = (a: number, b: number) => Math.abs(((a - b + 540) % 360) - 180);
+
+/**
+ * BFE au point à partir des lignes S_BFE à moins de 500 m :
+ * interpolation linéaire (inverse distance) entre la ligne la plus proche et la plus proche d'altitude différente
+ * située de l'autre côté du point (caps opposés à plus de 90°) ; sinon altitude de la ligne la plus proche, approchée.
+ */
+export async function queryBfeFromLines(lon: number, lat: number): Promise<{ bfe: BfeEstimate | null; tries: any[] }> {
+  const id = await nfhlLayerId("bfeLines");
+  const q = mkQuery(id, {
+    f: "json",
+    where: "1=1",
+    inSR: "4326",
+    outSR: "4326",
+    geometryType: "esriGeometryPoint",
+    geometry: JSON.stringify({ x: lon, y: lat, spatialReference: { wkid: 4326 } }),
+    spatialRel: "esriSpatialRelIntersects",
+    distance: "500",
+    units: "esriSRUnit_Meter",
+    returnGeometry: "true",
+    geometryPrecision: "6",
+    resultRecordCount: "50",
+    outFields: "ELEV,LEN_UNIT,V_DATUM",
+  });
+  const r = await getJson(q);
+  const feats: any[] = r.data?.features ?? [];
+  const tries = [{ step: "bfe-lines", layerId: id, url: q, err: r.data?.error, count: feats.length }];
+  if (r.data?.error || !feats.length) return { bfe: null, tries };
+  return { bfe: bfeFromLines(lon, lat, feats), tries };
+}
+
+/** Choix des lignes S_BFE (features ELEV / LEN_UNIT / V_DATUM + paths) et BFE au point. */
+export function bfeFromLines(lon: number, lat: number, feats: any[]): BfeEstimate | null {
+  const lines = feats
+    .map(f => {
+      const a = f?.attributes ?? {};
+      let elev = Number(a.ELEV);
+      if (!Number.isFinite(elev) || elev === -9999) return null;
+      if (/METER/i.test(String(a.LEN_UNIT ?? ""))) elev = elev * 3.28084;
+      const near = nearestOnPaths(lon, lat, f?.geometry?.paths ?? []);
+      return near ? { elevFt: elev, distanceM: near.distanceM, bearing: near.bearing, datum: str(a.V_DATUM) } : null;
+    })
+    .filter((x): x is { elevFt: number; distanceM: number; bearing: number; datum: string | null } => x != null)
+    .sort((a, b) => a.distanceM - b.distanceM);
+  if (!lines.length) return null;
+
+  const l1 = lines[0];
+  // pas d'extrapolation : seules des lignes qui encadrent le point sont interpolées
+  const l2 = l1.distanceM > 0
+    ? lines.find(l => l.elevFt !== l1.elevFt && l.distanceM > 0 && bearingGap(l.bearing, l1.bearing) > 90)
+    : undefined;
+  const round = (n: number) => Math.round(n * 10) / 10;
+  const used = l2 ? [l1, l2] : [l1];
+  const bfeFt = l2 && l1.distanceM + l2.distanceM > 0
+    ? (l1.elevFt * l2.distanceM + l2.elevFt * l1.distanceM) / (l1.distanceM + l2.distanceM)
+    : l1.elevFt;
+
+  return {
+    bfeFt: round(bfeFt),
+    method: l2 ? "interpolated" : "nearest-line",
+    approximate: !l2 && l1.distanceM > 0,
+    datum: l1.datum,
+    lines: used.map(l => ({ elevFt: round(l.elevFt), distanceM: Math.round(l.distanceM) })),
+  };
+}
+
+// ---------- Parts de surface par zone (entrée polygone) ----------
+export type FloodZoneShare = {
+  zone: string;
+  subtype: string | null;
+  level: FloodClass["level"];
+  sfha: boolean;
+  floodway: boolean;
+  percent: number;              // % de la surface du polygone
+  areaM2: number;
+};
+
+/**
+ * Zones S_FLD_HAZ_AR intersectant la parcelle, puis % de surface par zone (échantillonnage sur grille).
+ * Là où des polygones se superposent, la zone la plus sévère l'emporte (même règle que classifyFlood).
+ */
+export async function queryFloodZoneShares(parcel: ParcelInput) {
+  const layerId = await nfhlLayerId("floodZones");
+  const q = await queryByPolygon(`${NFHL_BASE}/MapServer/${layerId}`, parcel.polygons, {
+    outFields: "FLD_ZONE,ZONE_SUBTY,SFHA_TF,BFE,STATIC_BFE,DEPTH,V_DATUM",
+    maxAllowableOffset: "0.00001",
+  });
+  if (!q.ok) return { layerId, error: q.error, url: q.url, zones: [] as FloodZoneShare[], features: [] };
+
+  const samples = samplePolygons(parcel.polygons);
+  const counts = new Map<string, { cls: FloodClass; n: number }>();
+  for (const [x, y] of samples) {
+    const here = q.features.filter(f => insideRings(x, y, f.rings));
+    const cls = classifyFlood(here.map(f => ({ attributes: f.attributes })));
+    const key = here.length ? `${cls.zone}|${cls.subtype ?? ""}` : "N/A";
+    const cur = counts.get(key);
+    if (cur) cur.n++; else counts.set(key, { cls, n: 1 });
+  }
+
+  const zones: FloodZoneShare[] = [...counts.values()]
+    .map(({ cls, n }) => ({
+      zone: cls.zone,
+      subtype: cls.subtype,
+      level: cls.level,
+      sfha: cls.sfha,
+      floodway: cls.floodway,
+      percent: Math.round((n / samples.length) * 1000) / 10,
+      areaM2: Math.round((n / samples.length) * parcel.areaM2),
+    }))
+    .sort((a, b) => b.percent - a.percent);
+
+  return { layerId, url: q.url, zones, features: q.features, samples: samples.length, exceeded: q.exceeded };
+}
@@ -0,0 +1,99 @@
+// lib/nri-route.ts — handler GET commun aux routes NRI « simples » (même contrat que /api/wildfire/risk)
+import { NextRequest } from "next/server";
+import { pointFromRequest } from "@/lib/geocode";
+import {
+  adminNames, extractDetail, extractHazard, lookupNri, lookupNriPolygon, nriSource, type NriCode,
+} from "@/lib/nri";
+import { polygonFromRequest } from "@/lib/polygon";
+import { levelRank } from "@/lib/risk";
+
+type NriExtract = Pick<ReturnType<typeof extractHazard>, "level" | "label" | "score">;
+type NriExtractor = (attrs: Record<string, any>, code: NriCode, params: URLSearchParams) => NriExtract;
+
+/** Construit le GET d’une route `/api/<aléa>/risk` pour un code NRI (ex. "HAIL"). */
+export function nriRiskHandler(code: NriCode) {
+  return async function GET(req: NextRequest) {
+    const u = new URL(req.url);
+    const debug = u.searchParams.get("debug") === "1";
+    const detail = u.searchParams.get("detail") === "1";
+
+    const pt = await pointFromRequest(req);
+    if (pt.error) return pt.error;
+    const { lat: latNum, lon: lonNum, geocode: geocodeInfo, geoids } = pt;
+
+    // Tract en priorité, county en fallback
+    const nri = await lookupNri(lonNum, latNum, geoids);
+    if (nri.unit && nri.attrs) {
+      const attrs = nri.attrs;
+      const out = extractHazard(attrs, code);
+      const { county, state } = adminNames(attrs);
+
+      const body: any = {
+        level: out.level, label: out.label, score: out.score,
+        adminUnit: nri.unit, county, state,
+        provider: `FEMA National Risk Index (${nri.unit})`,
+        ...(await nriSource(nri)),
+      };
+      if (detail) body.detail = extractDetail(attrs, code);
+      if (debug) body.debug = {
+        geocode: geocodeInfo ?? null, steps: nri.steps, usedFields: out.usedFields, attrKeys: Object.keys(attrs).sort(),
+      };
+      return Response.json(body, { headers: { "cache-control": "no-store" } });
+    }
+
+    const res: any = { level: "Undetermined", label: "No Rating", provider: "FEMA NRI" };
+    if (debug) res.debug = { geocode: geocodeInfo ?? null, steps: nri.steps };
+    return Response.json(res, { headers: { "cache-control": "no-store" } });
+  };
+}
+
+/** POST GeoJSON Polygon / MultiPolygon → chaque tract (sinon county) intersecté, pondéré par surface.
+ *  `extract` : classement dépendant de la requête (ex. `mode=score`), sinon `extractHazard` et les réglages de l’aléa. */
+export function nriPolygonHandler(code: NriCode, extract: NriExtractor = (attrs, c) => extractHazard(attrs, c)) {
+  return async function POST(req: NextRequest) {
+    const params = new URL(req.url).searchParams;
+    const debug = params.get("debug") === "1";
+
+    const pg = await polygonFromRequest(req);
+    if (pg.error) return pg.error;
+    const { parcel } = pg;
+
+    const nri = await lookupNriPolygon(parcel);
+    if (!nri.unit) {
+      const res: any = { level: "Undetermined", label: "No Rating", provider: "FEMA NRI", input: "polygon", units: [] };
+      if (debug) res.debug = { attempts: nri.attempts };
+      return Response.json(res, { headers: { "cache-control": "no-store" } });
+    }
+
+    const units = nri.units.map(u => {
+      const out = extract(u.attrs, code, params);
+      return {
+        geoid: String((nri.unit === "tract" ? u.attrs.TRACTFIPS : u.attrs.STCOFIPS) ?? "") || null,
+        ...adminNames(u.attrs),
+        weight: u.weight,
+        areaM2: u.areaM2,
+        level: out.level, label: out.label, score: out.score,
+      };
+    });
+
+    // niveau = unité majoritaire en surface ; score = moyenne pondérée par surface
+    const dominant = units[0];
+    const scored = units.filter(u => u.score != null && u.weight > 0);
+    const wsum = scored.reduce((s, u) => s + u.weight, 0);
+    const worst = units.reduce((a, b) => (levelRank(b.level) > levelRank(a.level) ? b : a), dominant);
+
+    const body: any = {
+      level: dominant.level, label: dominant.label,
+      score: wsum > 0 ? Math.round((scored.reduce((s, u) => s + u.score! * u.weight, 0) / wsum) * 100) / 100 : null,
+      worstLevel: worst.level,
+      adminUnit: nri.unit,
+      provider: `FEMA National Risk Index (${nri.unit})`,
+      input: "polygon",
+      areaM2: Math.round(parcel.areaM2),
+      units,
+      uncovered: nri.uncovered,
+    };
+    if (debug) body.debug = { attempts: nri.attempts, vertices: parcel.vertices };
+    return Response.json(body, { headers: { "cache-control": "no-store" } });
+  };
+}
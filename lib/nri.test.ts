@@ -0,0 +1,48 @@
+// lib/nri.test.ts — lecture des champs NRI d’un aléa (réglages par aléa et options)
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { extractHazard, mapLabelToLevel } from "@/lib/nri";
+
+test("mapLabelToLevel: NRI ratings and the not-rated labels", () => {
+  assert.equal(mapLabelToLevel("Relatively Moderate"), "Moderate");
+  assert.equal(mapLabelToLevel("Very High"), "Very High");
+  assert.equal(mapLabelToLevel("Insufficient Data"), "Not Applicable");
+  assert.equal(mapLabelToLevel("Insufficient Data", { insufficientData: "Undetermined" }), "Undetermined");
+  assert.equal(mapLabelToLevel(null), "Undetermined");
+});
+
+test("extractHazard: exact RISKR / RISKS fields, rank and percentile fields ignored", () => {
+  const out = extractHazard({ HAIL_RISKR: "Relatively High", HAIL_RISKS_RANK: 3, HAIL_RISKS: 91.2 }, "HAIL");
+  assert.deepEqual(out, {
+    level: "High", label: "Relatively High", score: 91.2,
+    usedFields: { labelField: "HAIL_RISKR", scoreField: "HAIL_RISKS" },
+  });
+});
+
+test("extractHazard: cold wave scales 0–1 scores and treats unrated tracts as undetermined", () => {
+  const out = extractHazard({ CWAV_RISKR: "Insufficient Data", CWAV_RISKS: 0.42 }, "CWAV");
+  assert.equal(out.level, "Undetermined");
+  assert.equal(out.score, 42);
+  assert.equal(extractHazard({ HAIL_RISKR: "Insufficient Data" }, "HAIL").level, "Not Applicable");
+});
+
+test("extractHazard: tornado reads TORNADO_* fields and falls back to the score quintile", () => {
+  assert.equal(extractHazard({ TORNADO_RISKR: "Very Low", TORNADO_RISKS: 3 }, "TRND").level, "Very Low");
+  assert.equal(extractHazard({ TRND_RISKR: "No Rating", TRND_RISKS: 65 }, "TRND").level, "High");
+  assert.equal(extractHazard({ TRND_RISKS: 12 }, "TRND").level, "Very Low");
+});
+
+test("extractHazard: heat wave accepts HEAT-prefixed fields", () => {
+  const out = extractHazard({ HEAT_WAVE_RISKR: "Relatively Low", HEAT_WAVE_RISKS: 20 }, "HWAV");
+  assert.equal(out.level, "Low");
+  assert.equal(out.score, 20);
+});
+
+test("extractHazard: levelFromScore replaces the label rating", () => {
+  const out = extractHazard({ HRCN_RISKR: "Relatively Low", HRCN_RISKS: 0.97 }, "HRCN", {
+    levelFromScore: s => (s != null && s > 95 ? "Very High" : "Low"),
+  });
+  assert.equal(out.score, 97);
+  assert.equal(out.level, "Very High");
+  assert.equal(out.label, "Relatively Low");
+});
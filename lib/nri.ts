@@ -0,0 +1,496 @@
+// lib/nri.ts — lookup NRI partagé (tract → county), une seule cascade par coordonnée
+import { insideRings } from "@/lib/geo";
+import { queryByPolygon, samplePolygons, type ParcelInput } from "@/lib/polygon";
+import type { RiskLevel } from "@/lib/risk";
+
+/** NRI – services publics (AGOL) */
+export const NRI_TRACTS =
+  process.env.NRI_TRACTS_URL ??
+  "https://services.arcgis.com/XG15cJAlne2vxtgt/arcgis/rest/services/National_Risk_Index_Census_Tracts/FeatureServer/0";
+export const NRI_COUNTIES =
+  process.env.NRI_COUNTIES_URL ??
+  "https://services5.arcgis.com/W1uyphp8h2tna3qJ/ArcGIS/rest/services/NRI_GDB_Counties_%282%29/FeatureServer/0";
+
+/** Durée de vie du cache (ms) — surcharge possible via env */
+const CACHE_TTL_MS = Number(process.env.NRI_CACHE_TTL_MS ?? 10 * 60 * 1000);
+const CACHE_MAX = 500;
+
+export type NriUnit = "tract" | "county";
+export type NriAttempt = { step: string; url: string };
+export type NriLookup = {
+  unit: NriUnit | null;
+  attrs: Record<string, any> | null;
+  step: string | null;                       // étape pickFeature qui a répondu (ex. "point:within")
+  steps: Array<{ unit: NriUnit; attempts: NriAttempt[]; cached: boolean }>;
+};
+
+/** Cherche un attribut (gère les préfixes ex. NRI_CensusTracts_LNDS_RISKR). */
+export function findAttr(attrs: Record<string, any>, patterns: RegExp[]) {
+  for (const k of Object.keys(attrs)) {
+    const up = k.toUpperCase();
+    if (patterns.some(rx => rx.test(up))) return { key: k, value: attrs[k] };
+  }
+  return null;
+}
+
+/** Buffer géodésique léger pour tests secondaires. */
+export function tinyEnvelope(lon: number, lat: number, meters = 50) {
+  const degLat = meters / 111_320;
+  const degLon = meters / (111_320 * Math.cos((lat * Math.PI) / 180) || 1);
+  return { xmin: lon - degLon, ymin: lat - degLat, xmax: lon + degLon, ymax: lat + degLat };
+}
+
+/** Query générique FeatureServer/0 (1 feature par défaut). */
+export async function query(feature0Url: string, p: Record<string, string>) {
+  const params = new URLSearchParams({
+    f: "json",
+    outFields: "*",
+    returnGeometry: "false",
+    resultRecordCount: "1",
+    ...p,
+  });
+  const url = `${feature0Url}/query?${params.toString()}`;
+  const r = await fetch(url, { cache: "no-store" });
+  const text = await r.text();
+  let j: any = null; try { j = text ? JSON.parse(text) : null; } catch {}
+  if (!r.ok) return { ok: false as const, status: r.status, url, body: text };
+  const feat = j?.features?.[0];
+  return {
+    ok: true as const, url,
+    attrs: (feat?.attributes ?? null) as Record<string, any> | null,
+    features: (j?.features ?? []) as Array<{ attributes: Record<string, any>; geometry?: any }>, // si resultRecordCount > 1
+  };
+}
+
+/** Sélection robuste (point WITHIN → point INTERSECTS + tolérance → envelope 50m → 150m). */
+export async function pickFeature(feature0Url: string, lon: number, lat: number) {
+  const attempts: NriAttempt[] = [];
+
+  // 1) Point WITHIN
+  const pWithin = await query(feature0Url, {
+    geometry: JSON.stringify({ x: lon, y: lat }),
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelWithin",
+  });
+  attempts.push({ step: "point:within", url: pWithin.url });
+  if (pWithin.ok && pWithin.attrs) return { pick: pWithin, attempts };
+
+  // 2) Point INTERSECTS avec tolérance (3m → 50m)
+  for (const d of [3, 7, 15, 30, 50]) {
+    const pInter = await query(feature0Url, {
+      geometry: JSON.stringify({ x: lon, y: lat }),
+      geometryType: "esriGeometryPoint",
+      inSR: "4326",
+      spatialRel: "esriSpatialRelIntersects",
+      distance: String(d),
+      units: "esriSRUnit_Meter",
+    });
+    attempts.push({ step: `point:intersects:${d}m`, url: pInter.url });
+    if (pInter.ok && pInter.attrs) return { pick: pInter, attempts };
+  }
+
+  // 3) Envelope INTERSECTS (~50m puis ~150m)
+  for (const m of [50, 150]) {
+    const env = tinyEnvelope(lon, lat, m);
+    const eInter = await query(feature0Url, {
+      geometry: JSON.stringify({
+        xmin: env.xmin, ymin: env.ymin, xmax: env.xmax, ymax: env.ymax, spatialReference: { wkid: 4326 }
+      }),
+      geometryType: "esriGeometryEnvelope",
+      inSR: "4326",
+      spatialRel: "esriSpatialRelIntersects",
+    });
+    attempts.push({ step: `envelope:intersects:${m}m`, url: eInter.url });
+    if (eInter.ok && eInter.attrs) return { pick: eInter, attempts };
+  }
+
+  return { pick: null, attempts };
+}
+
+// ---------- Cache + coalescence ----------
+// Sur globalThis pour survivre aux bundles de routes séparés (et au HMR en dev).
+type Resolved = { attrs: Record<string, any> | null; attempts: NriAttempt[] };
+type Entry = { at: number; promise: Promise<Resolved> };
+const g = globalThis as any;
+const cache: Map<string, Entry> = g.__nriLookupCache ??= new Map();
+
+/** Résout une unité une seule fois par clé ; requêtes simultanées partagées. */
+function cached(key: string, run: () => ReturnType<typeof pickFeature>): { promise: Promise<Resolved>; cached: boolean } {
+  const now = Date.now();
+  const hit = cache.get(key);
+  if (hit && now - hit.at < CACHE_TTL_MS) return { promise: hit.promise, cached: true };
+
+  const promise = run().then(({ pick, attempts }) => {
+    const attrs = pick && pick.ok ? pick.attrs : null;
+    // pas de mise en cache des échecs : seule la coalescence en vol s’applique
+    if (!attrs) cache.delete(key);
+    return { attrs, attempts };
+  });
+  promise.catch(() => cache.delete(key));
+
+  cache.set(key, { at: now, promise });
+  if (cache.size > CACHE_MAX) {
+    const oldest = cache.keys().next().value;
+    if (oldest !== undefined) cache.delete(oldest);
+  }
+  return { promise, cached: false };
+}
+
+/** Par coordonnée (sondage spatial). */
+function resolveUnit(feature0Url: string, lon: number, lat: number) {
+  return cached(`${feature0Url}|${lon.toFixed(6)},${lat.toFixed(6)}`, () => pickFeature(feature0Url, lon, lat));
+}
+
+/** Par GEOID (attribut) — un seul aller-retour, déterministe sur les limites de tract. */
+function resolveById(feature0Url: string, field: "TRACTFIPS" | "STCOFIPS", geoid: string) {
+  return cached(`${feature0Url}|${field}=${geoid}`, async () => {
+    const step = `attribute:${field}`;
+    const pick = await query(feature0Url, { where: `${field} = '${geoid}'` });
+    return { pick: pick.ok && pick.attrs ? pick : null, attempts: [{ step, url: pick.url }] };
+  });
+}
+
+export type NriLookupOptions = {
+  tractOnly?: boolean;
+  tractGeoid?: string | null;                // GEOID 2020 (11 chiffres) si connu (géocodeur Census)
+  countyGeoid?: string | null;               // GEOID county (5 chiffres)
+};
+
+/** Enregistrement NRI au point : tract en priorité, county en fallback (sauf `tractOnly`).
+ *  GEOID connu → requête attributaire ; sinon (lat/lon brut, Nominatim) sondage spatial. */
+export async function lookupNri(lon: number, lat: number, opts: NriLookupOptions = {}): Promise<NriLookup> {
+  const steps: NriLookup["steps"] = [];
+
+  // GEOID injecté dans un where : chiffres uniquement
+  const tractGeoid = /^\d{11}$/.test(opts.tractGeoid ?? "") ? opts.tractGeoid! : null;
+  const countyGeoid = /^\d{5}$/.test(opts.countyGeoid ?? "") ? opts.countyGeoid! : null;
+
+  const units: Array<{ unit: NriUnit; url: string; field: "TRACTFIPS" | "STCOFIPS"; geoid: string | null }> = [
+    { unit: "tract", url: NRI_TRACTS, field: "TRACTFIPS", geoid: tractGeoid },
+  ];
+  if (!opts.tractOnly) units.push({ unit: "county", url: NRI_COUNTIES, field: "STCOFIPS", geoid: countyGeoid });
+
+  for (const u of units) {
+    const tries = [
+      ...(u.geoid ? [() => resolveById(u.url, u.field, u.geoid!)] : []),
+      () => resolveUnit(u.url, lon, lat),
+    ];
+    for (const run of tries) {
+      const res = run();
+      const r = await res.promise;
+      steps.push({ unit: u.unit, attempts: r.attempts, cached: res.cached });
+      if (r.attrs) return { unit: u.unit, attrs: r.attrs, step: r.attempts.at(-1)?.step ?? null, steps };
+    }
+  }
+
+  return { unit: null, attrs: null, step: null, steps };
+}
+
+// ---------- Polygone (parcelle) → toutes les unités intersectées ----------
+export type NriUnitShare = { attrs: Record<string, any>; weight: number; areaM2: number };
+export type NriPolygonLookup = {
+  unit: NriUnit | null;
+  units: NriUnitShare[];                     // triées par poids décroissant
+  uncovered: number;                         // part de la surface hors de tout polygone NRI (0–1)
+  attempts: Array<{ unit: NriUnit; url: string; count: number; error?: string }>;
+};
+
+/** Tracts (sinon counties) intersectant le polygone, pondérés par la part de surface (échantillonnage). */
+export async function lookupNriPolygon(parcel: ParcelInput): Promise<NriPolygonLookup> {
+  const attempts: NriPolygonLookup["attempts"] = [];
+  const samples = samplePolygons(parcel.polygons);
+
+  for (const [unit, url] of [["tract", NRI_TRACTS], ["county", NRI_COUNTIES]] as const) {
+    const q = await queryByPolygon(url, parcel.polygons, { maxAllowableOffset: "0.0001" });
+    attempts.push({ unit, url: q.url, count: q.features.length, ...(q.ok ? {} : { error: q.error }) });
+    if (!q.features.length) continue;
+
+    const counts = new Array(q.features.length).fill(0);
+    let outside = 0;
+    for (const [x, y] of samples) {
+      const i = q.features.findIndex(f => insideRings(x, y, f.rings));
+      if (i >= 0) counts[i]++; else outside++;
+    }
+    const units = q.features
+      .map((f, i) => ({
+        attrs: f.attributes,
+        weight: Math.round((counts[i] / samples.length) * 1000) / 1000,
+        areaM2: Math.round((counts[i] / samples.length) * parcel.areaM2),
+      }))
+      .sort((a, b) => b.weight - a.weight);
+    return { unit, units, uncovered: Math.round((outside / samples.length) * 1000) / 1000, attempts };
+  }
+
+  return { unit: null, units: [], uncovered: 1, attempts };
+}
+
+/** Comté / État lisibles depuis les attributs NRI. */
+export function adminNames(attrs: Record<string, any>) {
+  return {
+    county: attrs.COUNTY ?? attrs.COUNTY_NAME ?? attrs.NAME ?? null,
+    state: attrs.STATE ?? attrs.STATE_NAME ?? attrs.ST_ABBR ?? null,
+  };
+}
+
+// ---------- Identifiants + millésime ----------
+
+const releaseCache: Map<string, { at: number; promise: Promise<string | null> }> = g.__nriReleaseCache ??= new Map();
+
+/** Date de dernière mise à jour des données de la couche (métadonnées ArcGIS), mise en cache. */
+function layerDataDate(feature0Url: string): Promise<string | null> {
+  const hit = releaseCache.get(feature0Url);
+  if (hit && Date.now() - hit.at < CACHE_TTL_MS) return hit.promise;
+
+  const promise = (async () => {
+    try {
+      const r = await fetch(`${feature0Url}?f=json`, { cache: "no-store" });
+      if (!r.ok) return null;
+      const j: any = await r.json();
+      const ms = j?.editingInfo?.dataLastEditDate ?? j?.editingInfo?.lastEditDate ?? null;
+      return typeof ms === "number" && Number.isFinite(ms) ? new Date(ms).toISOString().slice(0, 10) : null;
+    } catch {
+      return null;
+    }
+  })();
+  releaseCache.set(feature0Url, { at: Date.now(), promise });
+  return promise;
+}
+
+export type NriSource = {
+  tractId: string | null;                    // GEOID du tract (TRACTFIPS, 11 chiffres)
+  countyFips: string | null;                 // STCOFIPS (5 chiffres)
+  stateFips: string | null;                  // STATEFIPS (2 chiffres)
+  nriVersion: string | null;                 // NRI_VER (ex. "March 2023")
+  nriDataDate: string | null;                // date des données de la couche (YYYY-MM-DD)
+  matchedLayer: NriUnit | null;
+  matchedStep: string | null;
+};
+
+/** Identifiants stables pour recouper / reproduire un résultat NRI. */
+export async function nriSource(nri: NriLookup): Promise<NriSource> {
+  const a = nri.attrs ?? {};
+  const str = (v: unknown) => (v == null || v === "" ? null : String(v));
+  const tractId = nri.unit === "tract" ? str(a.TRACTFIPS ?? a.GEOID) : null;
+  const countyFips =
+    str(a.STCOFIPS) ??
+    (a.STATEFIPS != null && a.COUNTYFIPS != null ? `${a.STATEFIPS}${a.COUNTYFIPS}` : null) ??
+    (tractId ? tractId.slice(0, 5) : null);
+  const stateFips = str(a.STATEFIPS) ?? (countyFips ? countyFips.slice(0, 2) : null);
+
+  return {
+    tractId,
+    countyFips,
+    stateFips,
+    nriVersion: str(a.NRI_VER),
+    nriDataDate: nri.unit ? await layerDataDate(nri.unit === "tract" ? NRI_TRACTS : NRI_COUNTIES) : null,
+    matchedLayer: nri.unit,
+    matchedStep: nri.step,
+  };
+}
+
+// ---------- Aléas NRI ----------
+
+/** Codes NRI (préfixes des champs, ex. HAIL_RISKR) → libellé */
+export const NRI_HAZARDS = {
+  AVLN: "Avalanche",
+  CFLD: "Coastal Flooding",
+  CWAV: "Cold Wave",
+  DRGT: "Drought",
+  ERQK: "Earthquake",
+  HAIL: "Hail",
+  HWAV: "Heat Wave",
+  HRCN: "Hurricane",
+  ISTM: "Ice Storm",
+  LNDS: "Landslide",
+  LTNG: "Lightning",
+  RFLD: "Riverine Flooding",
+  SWND: "Strong Wind",
+  TRND: "Tornado",
+  TSUN: "Tsunami",
+  VLCN: "Volcanic Activity",
+  WFIR: "Wildfire",
+  WNTW: "Winter Weather",
+} as const;
+export type NriCode = keyof typeof NRI_HAZARDS;
+
+/** Variantes de lecture d’un aléa (champs, échelle du score, libellés sans note). */
+export type NriExtractOptions = {
+  aliases?: string[];                  // autres préfixes de champs (ex. TORN pour TRND)
+  normalizeScore?: boolean;            // score 0–1 → 0–100
+  insufficientData?: RiskLevel;        // « Insufficient Data » (défaut : Not Applicable)
+  notRated?: RiskLevel;                // « No Rating » / « Not Applicable » (défaut : Not Applicable)
+  scoreFallback?: boolean;             // pas de note exploitable → niveau depuis le score (quintiles)
+  levelFromScore?: (score: number | null) => RiskLevel; // classement par score à la place du libellé
+};
+
+// Réglages par aléa : appliqués partout (GET, POST polygone, corridor) pour qu’un même lieu ait un même niveau
+const EXTRACT_PRESETS: Partial<Record<NriCode, NriExtractOptions>> = {
+  CWAV: { normalizeScore: true, insufficientData: "Undetermined", notRated: "Undetermined" },
+  LNDS: { normalizeScore: true, insufficientData: "Undetermined", notRated: "Undetermined" },
+  HRCN: { normalizeScore: true, insufficientData: "Undetermined" },
+  HWAV: { aliases: ["HEAT"] },
+  TRND: { aliases: ["TORN", "TORNADO"], insufficientData: "Undetermined", scoreFallback: true },
+};
+
+/** Mappe le libellé NRI (RISKR) → nos niveaux (pas de calcul depuis le score). */
+export function mapLabelToLevel(raw: unknown, opts: NriExtractOptions = {}): RiskLevel {
+  if (raw == null) return "Undetermined";
+  const s = String(raw).toLowerCase().replace(/[\s_\-()/]+/g, "");
+  if (s.includes("veryhigh")) return "Very High";
+  if (s.includes("relativelyhigh") || s === "high") return "High";
+  if (s.includes("relativelymoderate") || s === "moderate") return "Moderate";
+  if (s.includes("relativelylow") || s === "low") return "Low";
+  if (s.includes("verylow")) return "Very Low";
+  if (s.includes("insufficient")) return opts.insufficientData ?? "Not Applicable";
+  if (s.includes("norating") || s.includes("notapplicable")) return opts.notRated ?? "Not Applicable";
+  return "Undetermined";
+}
+
+/** Score 0–100 → quintile (repli quand le libellé manque). */
+function levelFromQuintile(score: number): RiskLevel {
+  return score >= 80 ? "Very High" : score >= 60 ? "High" : score >= 40 ? "Moderate" : score >= 20 ? "Low" : "Very Low";
+}
+
+/** Lecture stricte d’un aléa :
+ *  - Catégorie officielle : ...<CODE>_RISKR ("Relatively ...")
+ *  - Score (0–100)       : ...<CODE>_RISKS
+ *  Réglages de l’aléa (EXTRACT_PRESETS) complétés / remplacés par `options`.
+ */
+export function extractHazard(attrs: Record<string, any>, code: NriCode, options: NriExtractOptions = {}) {
+  const opts = { ...EXTRACT_PRESETS[code], ...options };
+  const prefix = `(?:${[code, ...(opts.aliases ?? [])].join("|")})`;
+  const riskR = findAttr(attrs, [new RegExp(`(^|_)${prefix}_RISKR$`, "i"), new RegExp(`(^|_)${prefix}.*_RISKR$`, "i")]);
+
+  let riskS = findAttr(attrs, [new RegExp(`(^|_)${prefix}_RISKS$`, "i")]);
+  if (!riskS) {
+    const cand = Object.keys(attrs).find(k => {
+      const up = k.toUpperCase();
+      return [code, ...(opts.aliases ?? [])].some(c => up.includes(c)) && up.endsWith("RISKS")
+        && !up.includes("RISKR") && !up.includes("RANK") && !up.includes("PCTL") && !up.includes("INDEX");
+    });
+    if (cand) riskS = { key: cand, value: attrs[cand] };
+  }
+
+  let score: number | null = null;
+  if (riskS && typeof riskS.value === "number" && Number.isFinite(riskS.value)) {
+    score = opts.normalizeScore && riskS.value <= 1.5 ? riskS.value * 100 : riskS.value; // 0–100
+  }
+
+  let level = opts.levelFromScore ? opts.levelFromScore(score) : mapLabelToLevel(riskR?.value, opts);
+  if (opts.scoreFallback && (level === "Undetermined" || level === "Not Applicable") && score != null) {
+    level = levelFromQuintile(score);
+  }
+
+  return {
+    level,
+    label: riskR?.value == null ? null : String(riskR.value),
+    score,
+    usedFields: { labelField: riskR?.key ?? null, scoreField: riskS?.key ?? null },
+  };
+}
+
+// ---------- Profil composite ----------
+
+export type NriRating = { level: RiskLevel; label: string | null; score: number | null };
+export type NriProfile = {
+  risk: NriRating;                           // RISK_RATNG / RISK_SCORE
+  eal: {                                     // Expected Annual Loss ($ / an)
+    total: number | null;                    // EAL_VALT
+    building: number | null;                 // EAL_VALB
+    population: number | null;               // EAL_VALPE (équivalent $), sinon EAL_VALP
+    agriculture: number | null;              // EAL_VALA
+  } & NriRating;                             // EAL_RATNG / EAL_SCORE
+  sovi: NriRating;                           // SOVI_RATNG / SOVI_SCORE
+  resl: NriRating;                           // RESL_RATNG / RESL_SCORE
+};
+
+function num(v: unknown): number | null {
+  const n = typeof v === "number" ? v : v == null || v === "" ? NaN : Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function rating(attrs: Record<string, any>, prefix: string): NriRating & { usedFields: string[] } {
+  const r = findAttr(attrs, [new RegExp(`(^|_)${prefix}_RATNG$`, "i")]);
+  const s = findAttr(attrs, [new RegExp(`(^|_)${prefix}_SCORE$`, "i")]);
+  return {
+    level: mapLabelToLevel(r?.value),
+    label: r?.value == null ? null : String(r.value),
+    score: num(s?.value),
+    usedFields: [r?.key, s?.key].filter(Boolean) as string[],
+  };
+}
+
+/** Indice composite, pertes annuelles attendues, vulnérabilité sociale et résilience. */
+export function extractProfile(attrs: Record<string, any>) {
+  const val = (f: string) => findAttr(attrs, [new RegExp(`(^|_)${f}$`, "i")]);
+  const { usedFields: riskF, ...risk } = rating(attrs, "RISK");
+  const { usedFields: ealF, ...ealRating } = rating(attrs, "EAL");
+  const { usedFields: soviF, ...sovi } = rating(attrs, "SOVI");
+  const { usedFields: reslF, ...resl } = rating(attrs, "RESL");
+
+  const t = val("EAL_VALT"), b = val("EAL_VALB"), pe = val("EAL_VALPE") ?? val("EAL_VALP"), a = val("EAL_VALA");
+  const profile: NriProfile = {
+    risk,
+    eal: { ...ealRating, total: num(t?.value), building: num(b?.value), population: num(pe?.value), agriculture: num(a?.value) },
+    sovi,
+    resl,
+  };
+  const usedFields = [...riskF, ...ealF, ...soviF, ...reslF, ...[t, b, pe, a].map(x => x?.key).filter(Boolean) as string[]];
+  return { profile, usedFields };
+}
+
+// ---------- Détail par aléa (detail=1) ----------
+
+/** Schéma stable des champs NRI derrière un rating ; null si absent pour cet aléa. */
+export type NriHazardDetail = {
+  code: NriCode;
+  hazard: string;
+  frequency: {
+    annualized: number | null;               // <CODE>_AFREQ (événements / an)
+    events: number | null;                   // <CODE>_EVNTS (nb d’événements historiques)
+  };
+  exposure: {
+    building: number | null;                 // <CODE>_EXPB ($)
+    population: number | null;               // <CODE>_EXPP (personnes)
+    populationEquivalence: number | null;    // <CODE>_EXPPE ($)
+    agriculture: number | null;              // <CODE>_EXPA ($)
+    total: number | null;                    // <CODE>_EXPT ($)
+  };
+  historicLossRatio: {
+    building: number | null;                 // <CODE>_HLRB
+    population: number | null;               // <CODE>_HLRP
+    agriculture: number | null;              // <CODE>_HLRA
+    rating: string | null;                   // <CODE>_HLRR
+  };
+  eal: {
+    total: number | null;                    // <CODE>_EALT ($ / an)
+    building: number | null;                 // <CODE>_EALB
+    population: number | null;               // <CODE>_EALP (personnes / an)
+    populationEquivalence: number | null;    // <CODE>_EALPE ($ / an)
+    agriculture: number | null;              // <CODE>_EALA
+    score: number | null;                    // <CODE>_EALS
+    rating: string | null;                   // <CODE>_EALR
+  };
+};
+
+export function extractDetail(attrs: Record<string, any>, code: NriCode): NriHazardDetail {
+  const raw = (suffix: string) => findAttr(attrs, [new RegExp(`(^|_)${code}_${suffix}$`, "i")])?.value;
+  const n = (suffix: string) => num(raw(suffix));
+  const txt = (suffix: string) => { const v = raw(suffix); return v == null || v === "" ? null : String(v); };
+
+  return {
+    code,
+    hazard: NRI_HAZARDS[code],
+    frequency: { annualized: n("AFREQ"), events: n("EVNTS") },
+    exposure: {
+      building: n("EXPB"), population: n("EXPP"), populationEquivalence: n("EXPPE"),
+      agriculture: n("EXPA"), total: n("EXPT"),
+    },
+    historicLossRatio: { building: n("HLRB"), population: n("HLRP"), agriculture: n("HLRA"), rating: txt("HLRR") },
+    eal: {
+      total: n("EALT"), building: n("EALB"), population: n("EALP"), populationEquivalence: n("EALPE"),
+      agriculture: n("EALA"), score: n("EALS"), rating: txt("EALR"),
+    },
+  };
+}
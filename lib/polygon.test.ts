@@ -0,0 +1,62 @@
+// lib/polygon.test.ts — lecture GeoJSON, surface et orientation des anneaux ArcGIS
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { esriPolygon, parsePolygonGeoJson, polygonsAreaM2, type Rings } from "@/lib/polygon";
+
+/** Aire plane signée (lacet) : > 0 = anti-horaire. */
+const shoelace = (ring: number[][]) =>
+  ring.slice(0, -1).reduce((s, [x1, y1], i) => s + x1 * ring[i + 1][1] - ring[i + 1][0] * y1, 0) / 2;
+
+// parcelle GeoJSON RFC 7946 (extérieur anti-horaire, cour intérieure horaire)
+const withHole = {
+  type: "Feature",
+  properties: {},
+  geometry: {
+    type: "Polygon",
+    coordinates: [
+      [[-75.01, 40.0], [-75.0, 40.0], [-75.0, 40.01], [-75.01, 40.01], [-75.01, 40.0]],
+      [[-75.007, 40.003], [-75.007, 40.007], [-75.003, 40.007], [-75.003, 40.003], [-75.007, 40.003]],
+    ],
+  },
+};
+
+const parse = (input: any): Rings[] => {
+  const parsed = parsePolygonGeoJson(input);
+  assert.ok(!("error" in parsed));
+  return parsed.polygons;
+};
+
+test("esriPolygon: exterior goes out clockwise, hole counter-clockwise", () => {
+  const { rings } = esriPolygon(parse(withHole));
+  assert.equal(rings.length, 2);
+  assert.ok(shoelace(rings[0]) < 0, "exterior must be clockwise");
+  assert.ok(shoelace(rings[1]) > 0, "hole must be counter-clockwise");
+});
+
+test("esriPolygon: rings already in Esri order are kept as is", () => {
+  const polygons = parse(withHole).map(rings => rings.map(r => [...r].reverse()));
+  assert.deepEqual(esriPolygon(polygons).rings, polygons[0]);
+});
+
+test("esriPolygon: every MultiPolygon part gets a clockwise exterior", () => {
+  const { rings } = esriPolygon(parse({
+    type: "MultiPolygon",
+    coordinates: [withHole.geometry.coordinates, [[[-74.99, 40.0], [-74.98, 40.0], [-74.98, 40.01], [-74.99, 40.0]]]],
+  }));
+  assert.deepEqual(rings.map(r => Math.sign(shoelace(r))), [-1, 1, -1]);
+});
+
+test("polygonsAreaM2 subtracts holes whatever their orientation", () => {
+  const outer = polygonsAreaM2([parse(withHole)[0].slice(0, 1)]);
+  const holed = polygonsAreaM2(parse(withHole));
+  // ≈ 853 m × 1112 m, cour = 16 % de l’emprise
+  assert.ok(Math.abs(outer - 948_500) < 5_000, `outer ${outer}`);
+  assert.ok(Math.abs(holed / outer - 0.84) < 0.001, `ratio ${holed / outer}`);
+});
+
+test("parsePolygonGeoJson closes open rings and rejects non-WGS84 coordinates", () => {
+  const [[ring]] = parse({ type: "Polygon", coordinates: [[[0, 0], [1, 0], [1, 1]]] });
+  assert.deepEqual(ring.at(-1), [0, 0]);
+  assert.deepEqual(parsePolygonGeoJson({ type: "Polygon", coordinates: [[[500000, 4400000], [1, 0], [1, 1]]] }),
+    { error: "Coordinates must be [lon, lat] in WGS84" });
+});
@@ -0,0 +1,161 @@
+// lib/polygon.ts — entrée GeoJSON Polygon / MultiPolygon (parcelle, emprise) + parts de surface
+import { NextRequest } from "next/server";
+import { insideRings } from "@/lib/geo";
+
+/** Anneaux [lon, lat] d'un polygone (0 = extérieur, suivants = trous) ; un MultiPolygon = liste de polygones. */
+export type Rings = number[][][];
+export type ParcelInput = {
+  polygons: Rings[];
+  areaM2: number;
+  vertices: number;
+};
+
+const R = 6371008.8;
+const MAX_AREA_M2 = Number(process.env.POLYGON_MAX_AREA_M2 ?? 50_000_000); // 50 km²
+const MAX_VERTICES = 5000;
+const SAMPLE_TARGET = 1600; // points de grille ≈ résolution 0,06 % de la surface
+
+/** Surface d'un anneau (m², formule sphérique, signe = orientation). */
+function ringArea(ring: number[][]): number {
+  let s = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [x1, y1] = ring[i], [x2, y2] = ring[i + 1];
+    s += ((x2 - x1) * Math.PI / 180) * (2 + Math.sin((y1 * Math.PI) / 180) + Math.sin((y2 * Math.PI) / 180));
+  }
+  return (s * R * R) / 2;
+}
+
+/** Surface (m²) : extérieurs − trous. */
+export function polygonsAreaM2(polygons: Rings[]): number {
+  let a = 0;
+  for (const rings of polygons) rings.forEach((r, i) => { a += i === 0 ? Math.abs(ringArea(r)) : -Math.abs(ringArea(r)); });
+  return Math.max(0, a);
+}
+
+/** Geometry GeoJSON (ou Feature) → polygones validés ; anneaux refermés si besoin. */
+export function parsePolygonGeoJson(input: any): { polygons: Rings[] } | { error: string } {
+  const geom = input?.type === "Feature" ? input.geometry : input?.geometry ?? input;
+  if (!geom || (geom.type !== "Polygon" && geom.type !== "MultiPolygon")) {
+    return { error: "Body must be a GeoJSON Polygon or MultiPolygon (geometry or Feature)" };
+  }
+  const raw: any[] = geom.type === "Polygon" ? [geom.coordinates] : geom.coordinates;
+  if (!Array.isArray(raw) || !raw.length) return { error: "Empty coordinates" };
+
+  const polygons: Rings[] = [];
+  for (const poly of raw) {
+    if (!Array.isArray(poly) || !poly.length) return { error: "Invalid polygon coordinates" };
+    const rings: Rings = [];
+    for (const ring of poly) {
+      if (!Array.isArray(ring)) return { error: "Invalid ring" };
+      const pts = ring.map((p: any) => [Number(p?.[0]), Number(p?.[1])]);
+      if (pts.some(([x, y]) => !Number.isFinite(x) || !Number.isFinite(y) || x < -180 || x > 180 || y < -90 || y > 90)) {
+        return { error: "Coordinates must be [lon, lat] in WGS84" };
+      }
+      const [f, l] = [pts[0], pts[pts.length - 1]];
+      if (f && (f[0] !== l[0] || f[1] !== l[1])) pts.push([f[0], f[1]]);
+      if (pts.length < 4) return { error: "Each ring needs at least 3 distinct positions" };
+      rings.push(pts);
+    }
+    polygons.push(rings);
+  }
+  return { polygons };
+}
+
+/** Lit le corps JSON d'un POST et valide le polygone (taille / nb de sommets bornés). */
+export async function polygonFromRequest(req: NextRequest): Promise<
+  { parcel: ParcelInput; error?: undefined } | { error: Response; parcel?: undefined }
+> {
+  const body = await req.json().catch(() => null);
+  if (!body) return { error: Response.json({ error: "Invalid JSON body" }, { status: 400 }) };
+
+  const parsed = parsePolygonGeoJson(body);
+  if ("error" in parsed) return { error: Response.json({ error: parsed.error }, { status: 400 }) };
+
+  const vertices = parsed.polygons.reduce((n, rings) => n + rings.reduce((m, r) => m + r.length, 0), 0);
+  if (vertices > MAX_VERTICES) {
+    return { error: Response.json({ error: `Polygon too detailed (max ${MAX_VERTICES} vertices)` }, { status: 400 }) };
+  }
+  const areaM2 = polygonsAreaM2(parsed.polygons);
+  if (!(areaM2 > 0)) return { error: Response.json({ error: "Polygon has no area" }, { status: 400 }) };
+  if (areaM2 > MAX_AREA_M2) {
+    return { error: Response.json({ error: `Polygon too large (max ${MAX_AREA_M2 / 1e6} km²)` }, { status: 400 }) };
+  }
+  return { parcel: { polygons: parsed.polygons, areaM2, vertices } };
+}
+
+/** Géométrie ArcGIS (esriGeometryPolygon) : extérieurs en sens horaire, trous en anti-horaire. */
+export function esriPolygon(polygons: Rings[]) {
+  const rings: number[][][] = [];
+  for (const poly of polygons) {
+    poly.forEach((r, i) => {
+      const ccw = ringArea(r) < 0; // aire signée négative = sens anti-horaire
+      rings.push((i === 0) === ccw ? [...r].reverse() : r);
+    });
+  }
+  return { rings, spatialReference: { wkid: 4326 } };
+}
+
+/** Point dans l'un des polygones (trous compris). */
+export function insidePolygons(lon: number, lat: number, polygons: Rings[]): boolean {
+  return polygons.some(rings => insideRings(lon, lat, rings));
+}
+
+/**
+ * Grille régulière de points dans le polygone (~SAMPLE_TARGET), chacun représentant une surface égale.
+ * Sert à estimer les parts de surface par zone / tract sans librairie de découpage.
+ */
+export function samplePolygons(polygons: Rings[], target = SAMPLE_TARGET): number[][] {
+  let xmin = Infinity, ymin = Infinity, xmax = -Infinity, ymax = -Infinity;
+  for (const rings of polygons) for (const [x, y] of rings[0]) {
+    xmin = Math.min(xmin, x); xmax = Math.max(xmax, x); ymin = Math.min(ymin, y); ymax = Math.max(ymax, y);
+  }
+  const kx = Math.cos((((ymin + ymax) / 2) * Math.PI) / 180);
+  const bboxArea = (xmax - xmin) * kx * (ymax - ymin);
+  const fill = Math.max(0.05, Math.min(1, polygonsAreaM2(polygons) / ((bboxArea * (Math.PI / 180) ** 2) * R * R || 1)));
+  const step = Math.sqrt(bboxArea / (target / fill)) || 1e-6; // en degrés « nord »
+  const dx = step / kx, dy = step;
+
+  const pts: number[][] = [];
+  for (let y = ymin + dy / 2; y < ymax; y += dy) {
+    for (let x = xmin + dx / 2; x < xmax; x += dx) {
+      if (insidePolygons(x, y, polygons)) pts.push([x, y]);
+    }
+  }
+  // polygone très fin : au moins un sommet pour ne pas renvoyer du vide
+  if (!pts.length) pts.push(polygons[0][0][0]);
+  return pts;
+}
+
+/** Query ArcGIS par polygone (POST form, géométrie renvoyée en WGS84). */
+export async function queryByPolygon(layerUrl: string, polygons: Rings[], p: Record<string, string> = {}) {
+  const url = `${layerUrl.replace(/\/+$/, "")}/query`;
+  const form = new URLSearchParams({
+    f: "json",
+    where: "1=1",
+    geometry: JSON.stringify(esriPolygon(polygons)),
+    geometryType: "esriGeometryPolygon",
+    inSR: "4326",
+    outSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    returnGeometry: "true",
+    geometryPrecision: "6",
+    outFields: "*",
+    ...p,
+  });
+  try {
+    const r = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded", accept: "application/json" },
+      body: form,
+      cache: "no-store",
+    });
+    const j: any = await r.json().catch(() => null);
+    if (!r.ok || !j || j.error) return { ok: false as const, url, error: j?.error?.message || `query failed (${r.status})`, features: [] };
+    const features: Array<{ attributes: Record<string, any>; rings: number[][][] }> = (j.features ?? [])
+      .filter((f: any) => f?.attributes && Array.isArray(f?.geometry?.rings))
+      .map((f: any) => ({ attributes: f.attributes, rings: f.geometry.rings }));
+    return { ok: true as const, url, features, exceeded: !!j.exceededTransferLimit };
+  } catch (e: any) {
+    return { ok: false as const, url, error: e?.message || "query failed", features: [] };
+  }
+}
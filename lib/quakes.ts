@@ -0,0 +1,115 @@
+// lib/quakes.ts — historique sismique autour du site (service FDSN event : USGS ComCat ou équivalent)
+import { haversineM } from "@/lib/geo";
+
+// Endpoint FDSN event (format=geojson) — remplaçable via la VAR d’env
+export const FDSN_EVENT_URL = (process.env.FDSN_EVENT_URL || "https://earthquake.usgs.gov/fdsnws/event/1/query").replace(/\/+$/, "");
+
+export const HISTORY_DEFAULTS = { radiusKm: 100, years: 50, minMagnitude: 2.5 };
+const MAX_RADIUS_KM = 500;
+const MAX_YEARS = 150;
+
+export type QuakeEvent = {
+  magnitude: number;
+  place: string | null;
+  date: string;                  // YYYY-MM-DD (UTC)
+  distanceKm: number;
+  depthKm: number | null;
+  url: string | null;
+};
+
+export type QuakeHistory = {
+  radiusKm: number;
+  start: string;
+  end: string;
+  minMagnitude: number;
+  total: number;
+  bins: Array<{ label: string; min: number; max: number | null; count: number }>;
+  largest: QuakeEvent | null;
+  nearestM4: QuakeEvent | null;
+  truncated: boolean;           // limite du service atteinte : comptes incomplets
+  source: string;
+};
+
+const LIMIT = 20000; // plafond FDSN ComCat par requête
+
+/** Bornes de classe (M min inclus, M max exclu) */
+const BINS: Array<[number, number | null]> = [[2.5, 4], [4, 5], [5, 6], [6, 7], [7, null]];
+const binLabel = (min: number, max: number | null) => (max == null ? `M${min}+` : `M${min}–${(max - 0.1).toFixed(1)}`);
+
+/** radiusKm / years bornés ; valeurs invalides → défauts. */
+export function historyOptions(radius: string | null, years: string | null) {
+  const r = Number(radius), y = Number(years);
+  return {
+    radiusKm: Number.isFinite(r) && r > 0 ? Math.min(r, MAX_RADIUS_KM) : HISTORY_DEFAULTS.radiusKm,
+    years: Number.isFinite(y) && y > 0 ? Math.min(y, MAX_YEARS) : HISTORY_DEFAULTS.years,
+  };
+}
+
+/** Événements M ≥ 2.5 dans le rayon / la fenêtre, résumés par classe de magnitude. */
+export async function quakeHistory(
+  lon: number, lat: number, opts: { radiusKm: number; years: number },
+): Promise<{ history: QuakeHistory | null; url: string; error?: string }> {
+  const end = new Date();
+  const start = new Date(end.getTime() - opts.years * 365.25 * 86400_000);
+  const minMagnitude = HISTORY_DEFAULTS.minMagnitude;
+  const url = `${FDSN_EVENT_URL}?${new URLSearchParams({
+    format: "geojson",
+    latitude: String(lat),
+    longitude: String(lon),
+    maxradiuskm: String(opts.radiusKm),
+    starttime: start.toISOString().slice(0, 10),
+    endtime: end.toISOString().slice(0, 10),
+    minmagnitude: String(minMagnitude),
+    orderby: "magnitude",
+    limit: String(LIMIT),
+  })}`;
+
+  try {
+    const r = await fetch(url, { headers: { accept: "application/json" }, cache: "no-store" });
+    const j: any = await r.json().catch(() => null);
+    if (!r.ok || !j) return { history: null, url, error: `FDSN ${r.status}` };
+
+    const events: QuakeEvent[] = (j.features ?? [])
+      .map((f: any) => {
+        const [x, y, depth] = f?.geometry?.coordinates ?? [];
+        const mag = Number(f?.properties?.mag);
+        if (!Number.isFinite(x) || !Number.isFinite(y) || !Number.isFinite(mag)) return null;
+        return {
+          magnitude: mag,
+          place: f.properties.place ?? null,
+          date: new Date(Number(f.properties.time)).toISOString().slice(0, 10),
+          distanceKm: Math.round(haversineM(lon, lat, x, y) / 100) / 10,
+          depthKm: Number.isFinite(depth) ? depth : null,
+          url: f.properties.url ?? null,
+        };
+      })
+      .filter((e: QuakeEvent | null): e is QuakeEvent => e != null);
+
+    const bins = BINS.map(([min, max]) => ({
+      label: binLabel(min, max), min, max,
+      count: events.filter(e => e.magnitude >= min && (max == null || e.magnitude < max)).length,
+    }));
+    const largest = events.reduce<QuakeEvent | null>((a, e) => (!a || e.magnitude > a.magnitude ? e : a), null);
+    const nearestM4 = events
+      .filter(e => e.magnitude >= 4)
+      .reduce<QuakeEvent | null>((a, e) => (!a || e.distanceKm < a.distanceKm ? e : a), null);
+
+    return {
+      history: {
+        radiusKm: opts.radiusKm,
+        start: start.toISOString().slice(0, 10),
+        end: end.toISOString().slice(0, 10),
+        minMagnitude,
+        total: events.length,
+        bins,
+        largest,
+        nearestM4,
+        truncated: events.length >= LIMIT,
+        source: "FDSN event service (USGS ComCat)",
+      },
+      url,
+    };
+  } catch (e: any) {
+    return { history: null, url, error: e?.message || "FDSN fetch failed" };
+  }
+}
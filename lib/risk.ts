@@ -0,0 +1,88 @@
+// lib/risk.ts — types partagés par /api/risk et la page
+import type { DesignLoads } from "@/lib/design-loads";
+import type { NriHazardDetail, NriProfile, NriSource } from "@/lib/nri";
+import type { SeaLevelRise } from "@/lib/slr";
+import type { StormSurge } from "@/lib/surge";
+
+export type RiskLevel =
+  | "Very Low" | "Low" | "Moderate" | "High" | "Very High"
+  | "Undetermined" | "Not Applicable";
+
+/** Rang de sévérité (Undetermined / Not Applicable = 0) pour comparer des niveaux. */
+export function levelRank(level: RiskLevel | null | undefined): number {
+  return level ? ["Very Low", "Low", "Moderate", "High", "Very High"].indexOf(level) + 1 : 0;
+}
+
+/** Comment une route source est lue : NFHL classé, USGS Design Maps ou NRI (level/label/score). */
+export type HazardKind = "flood" | "earthquake" | "nri";
+
+export type HazardDef = { key: string; title: string; path: string; kind: HazardKind };
+
+/** Ordre d’affichage : Flood → EQ → Landslide → Wildfire → Heatwave → Cold Wave → Hurricane → Tornado → autres aléas NRI */
+export const HAZARDS = [
+  { key: "flood",      title: "Flood",      path: "/api/flood/risk",      kind: "flood" },
+  { key: "earthquake", title: "Earthquake", path: "/api/earthquake/risk", kind: "earthquake" },
+  { key: "landslide",  title: "Landslide",  path: "/api/landslide/risk",  kind: "nri" },
+  { key: "wildfire",   title: "Wildfire",   path: "/api/wildfire/risk",   kind: "nri" },
+  { key: "heatwave",   title: "Heatwave",   path: "/api/heatwave/risk",   kind: "nri" },
+  { key: "coldwave",   title: "Cold Wave",  path: "/api/coldwave/risk",   kind: "nri" },
+  { key: "hurricane",  title: "Hurricane",  path: "/api/hurricane/risk",  kind: "nri" },
+  { key: "tornado",    title: "Tornado",    path: "/api/tornado/risk",    kind: "nri" },
+  { key: "riverineflood", title: "Riverine Flooding", path: "/api/riverineflood/risk", kind: "nri" },
+  { key: "coastalflood",  title: "Coastal Flooding",  path: "/api/coastalflood/risk",  kind: "nri" },
+  { key: "hail",          title: "Hail",              path: "/api/hail/risk",          kind: "nri" },
+  { key: "strongwind",    title: "Strong Wind",       path: "/api/strongwind/risk",    kind: "nri" },
+  { key: "winterweather", title: "Winter Weather",    path: "/api/winterweather/risk", kind: "nri" },
+  { key: "icestorm",      title: "Ice Storm",         path: "/api/icestorm/risk",      kind: "nri" },
+  { key: "drought",       title: "Drought",           path: "/api/drought/risk",       kind: "nri" },
+  { key: "lightning",     title: "Lightning",         path: "/api/lightning/risk",     kind: "nri" },
+  { key: "avalanche",     title: "Avalanche",         path: "/api/avalanche/risk",     kind: "nri" },
+  { key: "tsunami",       title: "Tsunami",           path: "/api/tsunami/risk",       kind: "nri" },
+  { key: "volcano",       title: "Volcanic Activity", path: "/api/volcano/risk",       kind: "nri" },
+] as const satisfies readonly HazardDef[];
+
+export type HazardKey = (typeof HAZARDS)[number]["key"];
+
+/** Une entrée par aléa dans la réponse agrégée. `error` non-null ⇒ level = null. */
+export type HazardResult = {
+  key: HazardKey;
+  title: string;
+  level: RiskLevel | null;
+  label: string | null;        // ex. "Relatively High", "Zone AE", "SDC D"
+  score: number | null;        // NRI *_RISKS (0–100), sinon null
+  source: string;              // ex. "FEMA National Risk Index (tract)"
+  adminUnit: "tract" | "county" | null;
+  error: string | null;
+  ms: number;
+  data: Record<string, any> | null; // corps de la route source (zone, bfe, sdc…)
+  detail: NriHazardDetail | null;   // NRI uniquement, avec ?detail=1
+};
+
+export type GeocodeResult = {
+  lat: number;
+  lon: number;
+  source: string;              // "census" | "nominatim" | "input"
+  precision: "address" | "city";
+  matched?: string | null;
+  placeLabel?: string | null;
+  tractGeoid?: string | null;  // Census geographies (2020) — lookup NRI attributaire
+  countyGeoid?: string | null;
+};
+
+/** Corps de /api/nri/profile */
+export type ProfileResult = NriProfile & NriSource & {
+  adminUnit: "tract" | "county";
+  county: string | null;
+  state: string | null;
+  provider: string;
+};
+
+export type RiskReport = {
+  geocode: GeocodeResult;
+  hazards: Record<HazardKey, HazardResult>;
+  profile: ProfileResult | null;     // null si NRI indisponible au point
+  designLoads: DesignLoads | null;   // null si le service ATC ne répond pas
+  surge: StormSurge | null;          // null si les rasters SLOSH ne répondent pas
+  seaLevel: SeaLevelRise | null;     // null si les couches SLR Viewer ne répondent pas
+  timings: { geocodeMs: number; hazardsMs: number; totalMs: number };
+};
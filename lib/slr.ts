@@ -0,0 +1,67 @@
+// lib/slr.ts — submersion par élévation du niveau marin (couches NOAA SLR Viewer 0–10 ft, pas de 1 ft)
+import type { SlrClass } from "@/lib/flood";
+
+// Dossier ArcGIS des MapServer SLR (un service par scénario) — remplaçable par un stand-in local via la VAR d’env
+export const SLR_BASE = (process.env.SLR_BASE || "https://coast.noaa.gov/arcgis/rest/services/dc_slr").replace(/\/+$/, "");
+// Nom du service par scénario ({n} = 0…10 ft)
+const SLR_SERVICE = process.env.SLR_SERVICE || "slr_{n}ft";
+
+const SCENARIOS_FT = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+export type SlrScenario = { ft: number; inundated: boolean | null }; // null = service indisponible
+
+export type SeaLevelRise = SlrClass & {
+  scenarios: SlrScenario[];
+  floodZone: { zone: string; coastal: boolean; level: string } | null;
+  groundFt: number | null;      // NAVD88 (contexte ; les scénarios sont relatifs à MHHW)
+  provider: string;
+  errors: Partial<Record<number, string>>;
+};
+
+/** Le point est-il dans la surface inondée du scénario ? (identify MapServer, valeur de pixel présente et non NoData) */
+async function inundatedAt(ft: number, lon: number, lat: number) {
+  const url = `${SLR_BASE}/${SLR_SERVICE.replace("{n}", String(ft))}/MapServer/identify?${new URLSearchParams({
+    f: "json",
+    geometry: `${lon},${lat}`,
+    geometryType: "esriGeometryPoint",
+    sr: "4326",
+    layers: "all",
+    tolerance: "0",
+    mapExtent: `${lon - 0.01},${lat - 0.01},${lon + 0.01},${lat + 0.01}`,
+    imageDisplay: "400,400,96",
+    returnGeometry: "false",
+  })}`;
+  const r = await fetch(url, { headers: { accept: "application/json" }, cache: "no-store" });
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok || !j || j.error) throw new Error(j?.error?.message || `slr_${ft}ft identify failed (${r.status})`);
+  const hit = (j.results ?? []).some((x: any) => {
+    const v = x?.attributes?.["Pixel Value"] ?? x?.attributes?.value ?? x?.value;
+    return v != null && v !== "" && !/nodata/i.test(String(v));
+  });
+  return { url, inundated: hit };
+}
+
+/** Scénarios 0–10 ft au point + plus faible scénario qui le submerge (null si aucun, ou si tout a échoué).
+ *  `unavailableFt` : scénario inférieur en échec qui rend ce plus faible scénario indéterminé. */
+export async function slrScenarios(lon: number, lat: number) {
+  // 10 ft d’abord (emprise maximale) : si le point reste sec, les scénarios inférieurs aussi → pas d’appel (sites intérieurs)
+  const [top] = await Promise.allSettled([inundatedAt(SCENARIOS_FT.at(-1)!, lon, lat)]);
+  const dryAtTop = top.status === "fulfilled" && !top.value.inundated;
+  const lower = dryAtTop
+    ? SCENARIOS_FT.slice(0, -1).map(() => top)
+    : await Promise.allSettled(SCENARIOS_FT.slice(0, -1).map(ft => inundatedAt(ft, lon, lat)));
+  const settled = [...lower, top];
+  const urls: string[] = [];
+  const errors: SeaLevelRise["errors"] = {};
+  const scenarios: SlrScenario[] = settled.map((s, i) => {
+    const ft = SCENARIOS_FT[i];
+    if (s.status === "rejected") { errors[ft] = String(s.reason?.message || s.reason); return { ft, inundated: null }; }
+    if (!urls.includes(s.value.url)) urls.push(s.value.url);
+    return { ft, inundated: s.value.inundated };
+  });
+  if (Object.keys(errors).length === SCENARIOS_FT.length) return { scenarios: null, lowestFt: null, unavailableFt: null, errors, urls };
+  const first = scenarios.find(s => s.inundated !== false);
+  const unavailableFt = first?.inundated === null ? first.ft : null;
+  const lowestFt = first && unavailableFt == null ? first.ft : null;
+  return { scenarios, lowestFt, unavailableFt, errors, urls };
+}
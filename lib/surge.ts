@@ -0,0 +1,100 @@
+// lib/surge.ts — submersion marine par catégorie d’ouragan (NOAA SLOSH MOM / National Storm Surge Hazard Maps)
+import { identifyPixel } from "@/lib/imageserver";
+import type { RiskLevel } from "@/lib/risk";
+
+// Dossier ArcGIS des rasters MOM (un ImageServer par catégorie) — remplaçable par un stand-in local via la VAR d’env
+export const SURGE_BASE = (process.env.SURGE_BASE || "https://coast.noaa.gov/arcgis/rest/services/NSSHM").replace(/\/+$/, "");
+// Nom du service par catégorie ({n} = 1…5)
+const SURGE_SERVICE = process.env.SURGE_SERVICE || "Category{n}_MOM";
+
+const CATEGORIES = [1, 2, 3, 4, 5] as const;
+// Valeur réservée des NSSHM : zone protégée par digue, non modélisée
+const LEVEED = 99;
+
+export type SurgeCategory = {
+  category: number;              // catégorie Saffir-Simpson
+  heightFt: number | null;       // hauteur d’eau au-dessus du sol (ft) ; null = sec / hors modèle
+  inundated: boolean | null;     // null = service indisponible
+};
+
+export type StormSurge = {
+  level: RiskLevel;
+  categories: SurgeCategory[];
+  firstInundating: number | null; // plus faible catégorie qui submerge le point (null si aucune ou indéterminée)
+  maxHeightFt: number | null;     // Cat 5
+  leveed: boolean;
+  modeled: boolean;               // au moins une catégorie couvre le point
+  note: string;
+  source: string;
+  errors: Partial<Record<number, string>>;
+};
+
+/** Plus la catégorie qui submerge est faible, plus le niveau est élevé. */
+function levelOf(first: number | null, modeled: boolean, leveed: boolean, undetermined: boolean): RiskLevel {
+  if (undetermined) return "Undetermined";
+  if (!modeled) return "Not Applicable";
+  if (first == null) return leveed ? "Undetermined" : "Very Low";
+  return first === 1 ? "Very High" : first === 2 ? "High" : first === 3 ? "Moderate" : "Low";
+}
+
+/** Hauteur de submersion MOM au point pour les catégories 1 à 5 (échecs partiels tolérés). */
+export async function stormSurge(lon: number, lat: number): Promise<{ surge: StormSurge | null; urls: string[] }> {
+  const identify = (n: number) => identifyPixel(`${SURGE_BASE}/${SURGE_SERVICE.replace("{n}", String(n))}/ImageServer`, lon, lat);
+  // Cat 5 d’abord (emprise maximale) : si elle ne submerge pas le point (hors domaine, sec, digue),
+  // les catégories inférieures non plus → pas d’appel (cas de tous les sites intérieurs)
+  const [top] = await Promise.allSettled([identify(5)]);
+  const v5 = top.status === "fulfilled" ? top.value.value : undefined;
+  const dryAtTop = v5 !== undefined && (v5 == null || v5 === LEVEED || v5 <= 0);
+  const lower = dryAtTop
+    ? CATEGORIES.slice(0, -1).map(() => top)
+    : await Promise.allSettled(CATEGORIES.slice(0, -1).map(identify));
+  const settled = [...lower, top];
+  const urls: string[] = [];
+  const errors: StormSurge["errors"] = {};
+  let leveed = false, modeled = false;
+
+  const categories: SurgeCategory[] = settled.map((s, i) => {
+    const category = CATEGORIES[i];
+    if (s.status === "rejected") {
+      errors[category] = String(s.reason?.message || s.reason);
+      return { category, heightFt: null, inundated: null };
+    }
+    if (!urls.includes(s.value.url)) urls.push(s.value.url);
+    const v = s.value.value;
+    if (v == null) return { category, heightFt: null, inundated: false };
+    modeled = true;
+    if (v === LEVEED) { leveed = true; return { category, heightFt: null, inundated: false }; }
+    const heightFt = Math.round(v * 10) / 10;
+    return { category, heightFt, inundated: heightFt > 0 };
+  });
+  if (Object.keys(errors).length === CATEGORIES.length) return { surge: null, urls };
+
+  // une catégorie inférieure en échec : la plus faible catégorie qui submerge reste inconnue
+  const first = categories.find(c => c.inundated !== false);
+  const undetermined = first?.inundated === null;
+  const firstInundating = first && !undetermined ? first.category : null;
+  const note = undetermined
+    ? `Undetermined: Category ${first!.category} unavailable`
+    : leveed
+    ? "Leveed area: surge not modeled behind the levee"
+    : !modeled
+      ? "Outside the SLOSH model domain"
+      : firstInundating == null
+        ? "Not inundated up to Category 5"
+        : `Inundated from Category ${firstInundating}`;
+
+  return {
+    surge: {
+      level: levelOf(firstInundating, modeled, leveed, undetermined),
+      categories,
+      firstInundating,
+      maxHeightFt: categories.at(-1)?.heightFt ?? null,
+      leveed,
+      modeled,
+      note,
+      source: "NOAA SLOSH MOM (National Storm Surge Hazard Maps)",
+      errors,
+    },
+    urls,
+  };
+}
@@ -0,0 +1,59 @@
+// lib/tornadoes.test.ts — lecture du CSV SPC, options bornées et historique autour d’un site
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, test } from "node:test";
+
+const CSV = [
+  "om,yr,mo,dy,date,time,tz,st,stf,stn,mag,inj,fat,loss,closs,slat,slon,elat,elon,len,wid,ns,sn,sg,f1,f2,f3,f4,fc",
+  // F4 de 1974 qui traverse le site (40, -90)
+  "1,1974,4,3,1974-04-03,15:00:00,3,IL,17,1,4,12,2,0,0,39.95,-90.0,40.05,-90.0,6.9,200,1,1,1,0,0,0,0,0",
+  // EF2 de 2011 à ~12 mi, puis son tronçon par comté (sg = 2, ignoré)
+  "2,2011,4,27,2011-04-27,16:00:00,3,IL,17,2,2,0,0,0,0,40.1,-89.8,40.1,-89.7,5.3,150,1,1,1,0,0,0,0,0",
+  "2,2011,4,27,2011-04-27,16:00:00,3,IL,17,2,2,0,0,0,0,40.1,-89.8,40.1,-89.75,2.6,150,1,0,2,0,0,0,0,0",
+  // intensité inconnue, fin inconnue (0,0) : point de départ à ~1,7 mi
+  "3,2020,6,1,2020-06-01,18:00:00,3,IL,17,3,-9,0,0,0,0,40.02,-90.02,0,0,0.1,20,1,1,1,0,0,0,0,0",
+  // hors rayon
+  "4,1990,5,5,1990-05-05,17:00:00,3,OK,40,4,3,0,0,0,0,35.0,-97.0,35.1,-96.9,8,300,1,1,1,0,0,0,0,0",
+  // F1 de 1955, exclue par since = 1960
+  "5,1955,5,25,1955-05-25,17:00:00,3,IL,17,5,1,0,0,0,0,40.0,-90.01,40.0,-89.99,1.2,50,1,1,1,0,0,0,0,0",
+].join("\n");
+
+const dir = mkdtempSync(path.join(tmpdir(), "spc-"));
+process.env.SPC_TORNADO_CSV = path.join(dir, "tornadoes.csv");
+writeFileSync(process.env.SPC_TORNADO_CSV, CSV);
+after(() => rmSync(dir, { recursive: true, force: true }));
+// SPC_TORNADO_CSV est lu au chargement du module : import après la VAR d’env
+const load = () => import("@/lib/tornadoes");
+
+test("parseSpcCsv: whole tracks only, unknown end point and magnitude", async () => {
+  const { parseSpcCsv } = await load();
+  const tracks = parseSpcCsv(CSV);
+  assert.equal(tracks.length, 5);
+  const unknown = tracks.find(t => t.year === 2020)!;
+  assert.deepEqual([unknown.mag, unknown.elat, unknown.elon], [null, 40.02, -90.02]);
+  assert.deepEqual([tracks[0].mag, tracks[0].widthYd, tracks[0].fatalities], [4, 200, 2]);
+  assert.throws(() => parseSpcCsv("om,yr,mag\n1,1974,4"), /Unexpected SPC tornado CSV header/);
+});
+
+test("tornadoHistoryOptions: bounded values, invalid ones fall back to the defaults", async () => {
+  const { tornadoHistoryOptions, TORNADO_HISTORY_DEFAULTS } = await load();
+  assert.deepEqual(tornadoHistoryOptions(null, null, null), TORNADO_HISTORY_DEFAULTS);
+  assert.deepEqual(tornadoHistoryOptions("500", "1999", "9"), { radiusMi: 100, since: 1999, bufferMi: 5 });
+  assert.deepEqual(tornadoHistoryOptions("-3", "1949", "abc"), TORNADO_HISTORY_DEFAULTS);
+  assert.equal(tornadoHistoryOptions("10", "2000.5", "1").since, 1950);
+});
+
+test("tornadoHistory: counts by rating, strongest, most recent and crossings", async () => {
+  const { tornadoHistory } = await load();
+  const { history, error } = await tornadoHistory(-90, 40, { radiusMi: 25, since: 1960, bufferMi: 0.25 });
+  assert.equal(error, undefined);
+  assert.equal(history?.total, 3);
+  assert.equal(history?.through, 2020);
+  assert.deepEqual(history?.byRating.filter(r => r.count).map(r => r.rating), ["EF/F4", "EF/F2", "Unknown"]);
+  assert.deepEqual([history?.strongest?.rating, history?.strongest?.distanceMi], ["F4", 0]);
+  assert.deepEqual([history?.mostRecent?.date, history?.mostRecent?.rating], ["2020-06-01", "Unknown"]);
+  assert.equal(history?.crossings, 1);
+  assert.equal(history?.crossingEvents[0].date, "1974-04-03");
+});
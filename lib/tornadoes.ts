@@ -0,0 +1,173 @@
+// lib/tornadoes.ts — historique des trajectoires de tornades autour du site (NOAA SPC, CSV embarqué 1950–présent)
+import { readFile, stat } from "node:fs/promises";
+import path from "node:path";
+import { haversineM, nearestOnPaths } from "@/lib/geo";
+
+// CSV SPC « actual_tornadoes » (mis à jour par `npm run data:tornadoes`) — remplaçable via la VAR d’env
+export const SPC_TORNADO_CSV = process.env.SPC_TORNADO_CSV || path.join(process.cwd(), "data", "spc", "tornadoes.csv");
+
+export const TORNADO_HISTORY_DEFAULTS = { radiusMi: 25, since: 1950, bufferMi: 0.25 };
+const MAX_RADIUS_MI = 100;
+const MAX_BUFFER_MI = 5;
+const M_PER_MI = 1609.344;
+const YD_TO_M = 0.9144;
+const EF_START = "2007-02-01"; // échelle EF à partir du 1er février 2007
+
+export const TORNADO_RATINGS = ["EF/F5", "EF/F4", "EF/F3", "EF/F2", "EF/F1", "EF/F0", "Unknown"] as const;
+export type TornadoRating = (typeof TORNADO_RATINGS)[number];
+
+type Track = {
+  date: string; year: number; state: string; mag: number | null;
+  slon: number; slat: number; elon: number; elat: number;
+  lengthMi: number | null; widthYd: number | null; fatalities: number; injuries: number;
+};
+
+export type TornadoEvent = {
+  date: string;                 // YYYY-MM-DD (heure locale SPC)
+  rating: string;               // ex. "EF3", "F2", "Unknown"
+  state: string;
+  distanceMi: number;           // distance trajectoire ↔ site
+  lengthMi: number | null;
+  widthYd: number | null;
+  fatalities: number;
+  injuries: number;
+};
+
+export type TornadoHistory = {
+  radiusMi: number;
+  bufferMi: number;
+  since: number;
+  through: number | null;       // dernière année présente dans le CSV
+  total: number;
+  byRating: Array<{ rating: TornadoRating; count: number }>;
+  strongest: TornadoEvent | null;
+  mostRecent: TornadoEvent | null;
+  crossings: number;            // trajectoires (demi-largeur incluse) passant dans le tampon du site
+  crossingEvents: TornadoEvent[];
+  source: string;
+};
+
+/** CSV SPC : en-tête om,yr,mo,dy,date,…,mag,inj,fat,…,slat,slon,elat,elon,len,wid,ns,sn,sg,… */
+export function parseSpcCsv(text: string): Track[] {
+  const lines = text.split(/\r?\n/).filter(Boolean);
+  const head = (lines.shift() ?? "").split(",").map(h => h.trim().replace(/^"|"$/g, "").toLowerCase());
+  const col = (k: string) => head.indexOf(k);
+  const c = {
+    yr: col("yr"), date: col("date"), st: col("st"), mag: col("mag"), inj: col("inj"), fat: col("fat"),
+    slat: col("slat"), slon: col("slon"), elat: col("elat"), elon: col("elon"), len: col("len"), wid: col("wid"), sg: col("sg"),
+  };
+  if (c.slat < 0 || c.slon < 0 || c.yr < 0) throw new Error("Unexpected SPC tornado CSV header");
+
+  const out: Track[] = [];
+  for (const line of lines) {
+    const f = line.split(",").map(x => x.trim().replace(/^"|"$/g, ""));
+    // sg = 1 : trajectoire entière (2 / -9 = tronçons par État / comté, déjà couverts)
+    if (c.sg >= 0 && Number(f[c.sg]) !== 1) continue;
+    const slat = Number(f[c.slat]), slon = Number(f[c.slon]);
+    if (!Number.isFinite(slat) || !Number.isFinite(slon) || slat === 0) continue;
+    // fin inconnue = 0,0 → point de départ
+    let elat = Number(f[c.elat]), elon = Number(f[c.elon]);
+    if (!Number.isFinite(elat) || !Number.isFinite(elon) || elat === 0 || elon === 0) { elat = slat; elon = slon; }
+    const mag = Number(f[c.mag]), len = Number(f[c.len]), wid = Number(f[c.wid]);
+    out.push({
+      date: f[c.date] ?? "", year: Number(f[c.yr]), state: f[c.st] ?? "",
+      mag: Number.isFinite(mag) && mag >= 0 ? mag : null,
+      slon, slat, elon, elat,
+      lengthMi: Number.isFinite(len) && len > 0 ? len : null,
+      widthYd: Number.isFinite(wid) && wid > 0 ? wid : null,
+      fatalities: Number(f[c.fat]) || 0,
+      injuries: Number(f[c.inj]) || 0,
+    });
+  }
+  return out;
+}
+
+// Cache process, relu quand le CSV change (mtime)
+type Loaded = { mtimeMs: number; tracks: Track[]; through: number | null };
+const g = globalThis as any;
+
+async function loadTracks(): Promise<Loaded | null> {
+  const st = await stat(SPC_TORNADO_CSV).catch(() => null);
+  if (!st) return null;
+  const hit: Loaded | undefined = g.__spcTornadoCache;
+  if (hit && hit.mtimeMs === st.mtimeMs) return hit;
+  const tracks = parseSpcCsv(await readFile(SPC_TORNADO_CSV, "utf8"));
+  const through = tracks.reduce<number | null>((m, t) => (m == null || t.year > m ? t.year : m), null);
+  return (g.__spcTornadoCache = { mtimeMs: st.mtimeMs, tracks, through });
+}
+
+/** historyRadiusMi / historySince / bufferMi bornés ; valeurs invalides → défauts. */
+export function tornadoHistoryOptions(radius: string | null, since: string | null, buffer: string | null) {
+  const r = Number(radius), y = Number(since), b = Number(buffer);
+  return {
+    radiusMi: Number.isFinite(r) && r > 0 ? Math.min(r, MAX_RADIUS_MI) : TORNADO_HISTORY_DEFAULTS.radiusMi,
+    since: Number.isInteger(y) && y >= 1950 ? y : TORNADO_HISTORY_DEFAULTS.since,
+    bufferMi: Number.isFinite(b) && b > 0 ? Math.min(b, MAX_BUFFER_MI) : TORNADO_HISTORY_DEFAULTS.bufferMi,
+  };
+}
+
+const ratingLabel = (t: Track) => (t.mag == null ? "Unknown" : `${t.date >= EF_START ? "EF" : "F"}${t.mag}`);
+const ratingBucket = (t: Track): TornadoRating => (t.mag == null ? "Unknown" : (`EF/F${Math.min(t.mag, 5)}` as TornadoRating));
+
+/** Tornades dont la trajectoire passe dans le rayon depuis `since` : classes EF/F, plus forte, plus récente, traversées. */
+export async function tornadoHistory(
+  lon: number, lat: number, opts: { radiusMi: number; since: number; bufferMi: number },
+): Promise<{ history: TornadoHistory | null; error?: string }> {
+  try {
+    const data = await loadTracks();
+    if (!data) return { history: null, error: `SPC tornado CSV not found at ${SPC_TORNADO_CSV}` };
+
+    const radiusM = opts.radiusMi * M_PER_MI;
+    const dLat = opts.radiusMi / 69 + 0.05;
+    const dLon = dLat / Math.max(0.2, Math.cos((lat * Math.PI) / 180));
+
+    const hits: Array<{ t: Track; ev: TornadoEvent; crossing: boolean }> = [];
+    for (const t of data.tracks) {
+      if (t.year < opts.since) continue;
+      if (Math.max(t.slat, t.elat) < lat - dLat || Math.min(t.slat, t.elat) > lat + dLat) continue;
+      if (Math.max(t.slon, t.elon) < lon - dLon || Math.min(t.slon, t.elon) > lon + dLon) continue;
+
+      const d = t.slon === t.elon && t.slat === t.elat
+        ? haversineM(lon, lat, t.slon, t.slat)
+        : nearestOnPaths(lon, lat, [[[t.slon, t.slat], [t.elon, t.elat]]])!.distanceM;
+      if (d > radiusM) continue;
+
+      // traversée : le couloir (demi-largeur de la trace) touche le tampon autour du site
+      const halfWidthM = ((t.widthYd ?? 0) * YD_TO_M) / 2;
+      hits.push({
+        t,
+        crossing: d <= opts.bufferMi * M_PER_MI + halfWidthM,
+        ev: {
+          date: t.date, rating: ratingLabel(t), state: t.state,
+          distanceMi: Math.round((d / M_PER_MI) * 10) / 10,
+          lengthMi: t.lengthMi, widthYd: t.widthYd, fatalities: t.fatalities, injuries: t.injuries,
+        },
+      });
+    }
+
+    const strongest = hits
+      .filter(h => h.t.mag != null)
+      .reduce<(typeof hits)[number] | null>(
+        (a, h) => (!a || h.t.mag! > a.t.mag! || (h.t.mag === a.t.mag && h.ev.distanceMi < a.ev.distanceMi) ? h : a), null);
+    const mostRecent = hits.reduce<(typeof hits)[number] | null>((a, h) => (!a || h.t.date > a.t.date ? h : a), null);
+    const crossing = hits.filter(h => h.crossing).sort((a, b) => b.t.date.localeCompare(a.t.date));
+
+    return {
+      history: {
+        radiusMi: opts.radiusMi,
+        bufferMi: opts.bufferMi,
+        since: opts.since,
+        through: data.through,
+        total: hits.length,
+        byRating: TORNADO_RATINGS.map(rating => ({ rating, count: hits.filter(h => ratingBucket(h.t) === rating).length })),
+        strongest: strongest?.ev ?? null,
+        mostRecent: mostRecent?.ev ?? null,
+        crossings: crossing.length,
+        crossingEvents: crossing.map(h => h.ev),
+        source: "NOAA SPC Severe Weather Database (tornado tracks)",
+      },
+    };
+  } catch (e: any) {
+    return { history: null, error: e?.message || "SPC tornado CSV load failed" };
+  }
+}
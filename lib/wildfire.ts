@@ -0,0 +1,110 @@
+// lib/wildfire.ts — valeurs de feu de forêt au pixel (USFS Wildfire Risk to Communities / WHP) + classe WUI SILVIS
+import { identifyPixel } from "@/lib/imageserver";
+import type { RiskLevel } from "@/lib/risk";
+
+// Dossier ArcGIS des ImageServer USFS (…/<service>/ImageServer/identify) — remplaçable par un stand-in local via la VAR d’env
+export const WRC_BASE = (process.env.WRC_BASE || "https://apps.fs.usda.gov/fsgisx01/rest/services/RDW_Wildfire").replace(/\/+$/, "");
+// Couche des blocs WUI SILVIS (FeatureServer/MapServer …/query)
+export const WUI_URL = (process.env.WUI_URL || "https://apps.fs.usda.gov/arcx/rest/services/RDW_Wildfire/RMRS_WildlandUrbanInterface_2020/MapServer/0").replace(/\/+$/, "");
+
+const SERVICES = {
+  burnProbability: process.env.WRC_BP_SERVICE || "RMRS_WRC_BurnProbability",
+  flameLength: process.env.WRC_CFL_SERVICE || "RMRS_WRC_ConditionalFlameLength",
+  whp: process.env.WRC_WHP_SERVICE || "RMRS_WildfireHazardPotential_2023",
+};
+
+/** Classes WHP (1–5 = niveaux, 6 = non combustible, 7 = eau) */
+const WHP_CLASSES: Record<number, { label: string; level: RiskLevel }> = {
+  1: { label: "Very Low", level: "Very Low" },
+  2: { label: "Low", level: "Low" },
+  3: { label: "Moderate", level: "Moderate" },
+  4: { label: "High", level: "High" },
+  5: { label: "Very High", level: "Very High" },
+  6: { label: "Non-burnable", level: "Not Applicable" },
+  7: { label: "Water", level: "Not Applicable" },
+};
+
+export type WuiClass = "interface" | "intermix" | "non-WUI";
+
+export type WildfireSite = {
+  burnProbability: number | null;       // probabilité annuelle (0–1)
+  returnYears: number | null;           // ≈ 1 / probabilité
+  flameLengthFt: number | null;         // longueur de flamme conditionnelle (ft)
+  whp: { class: number; label: string; level: RiskLevel } | null;
+  wui: { class: WuiClass; raw: string; density: string | null } | null;
+  source: string;
+  errors: Partial<Record<"burnProbability" | "flameLength" | "whp" | "wui", string>>;
+};
+
+/** Pixel d’un ImageServer du dossier WRC (erreur préfixée par le nom du service). */
+const pixel = (service: string, lon: number, lat: number) =>
+  identifyPixel(`${WRC_BASE}/${service}/ImageServer`, lon, lat).catch((e: any) => {
+    throw new Error(`${service}: ${e?.message || e}`);
+  });
+
+/** WUICLASS SILVIS (ex. "Med_Dens_Intermix") → interface / intermix / non-WUI + densité. */
+function wuiClass(raw: string): NonNullable<WildfireSite["wui"]> {
+  const s = raw.toLowerCase();
+  const cls: WuiClass = s.includes("intermix") ? "intermix" : s.includes("interface") ? "interface" : "non-WUI";
+  const density = s.startsWith("high") ? "high" : s.startsWith("med") ? "medium" : s.startsWith("low") ? "low" : null;
+  return { class: cls, raw, density: cls === "non-WUI" ? null : density };
+}
+
+/** Bloc WUI SILVIS contenant le point (champ WUICLASS<année> le plus récent). */
+async function wuiAt(lon: number, lat: number) {
+  const url = `${WUI_URL}/query?${new URLSearchParams({
+    f: "json",
+    where: "1=1",
+    geometry: `${lon},${lat}`,
+    geometryType: "esriGeometryPoint",
+    inSR: "4326",
+    spatialRel: "esriSpatialRelIntersects",
+    outFields: "*",
+    returnGeometry: "false",
+    resultRecordCount: "1",
+  })}`;
+  const r = await fetch(url, { headers: { accept: "application/json" }, cache: "no-store" });
+  const j: any = await r.json().catch(() => null);
+  if (!r.ok || !j || j.error) throw new Error(j?.error?.message || `WUI query failed (${r.status})`);
+  const attrs = j.features?.[0]?.attributes;
+  if (!attrs) return { url, wui: null };
+  const key = Object.keys(attrs).filter(k => /^WUICLASS/i.test(k)).sort().at(-1);
+  return { url, wui: key && attrs[key] ? wuiClass(String(attrs[key])) : null };
+}
+
+/** Probabilité de feu, longueur de flamme, classe WHP et WUI au point (échecs partiels tolérés). */
+export async function wildfireSite(lon: number, lat: number): Promise<{ site: WildfireSite | null; urls: string[] }> {
+  const [bp, cfl, whp, wui] = await Promise.allSettled([
+    pixel(SERVICES.burnProbability, lon, lat),
+    pixel(SERVICES.flameLength, lon, lat),
+    pixel(SERVICES.whp, lon, lat),
+    wuiAt(lon, lat),
+  ]);
+  const errors: WildfireSite["errors"] = {};
+  const urls: string[] = [];
+  const ok = <T extends { url: string }>(s: PromiseSettledResult<T>, k: keyof WildfireSite["errors"]) => {
+    if (s.status === "fulfilled") { urls.push(s.value.url); return s.value; }
+    errors[k] = String(s.reason?.message || s.reason);
+    return null;
+  };
+
+  const p = ok(bp, "burnProbability")?.value ?? null;
+  const fl = ok(cfl, "flameLength")?.value ?? null;
+  const wc = ok(whp, "whp")?.value ?? null;
+  const w = ok(wui, "wui");
+  if (Object.keys(errors).length === 4) return { site: null, urls };
+
+  const whpClass = wc != null ? WHP_CLASSES[Math.round(wc)] : undefined;
+  return {
+    site: {
+      burnProbability: p,
+      returnYears: p != null && p > 0 ? Math.round(1 / p) : null,
+      flameLengthFt: fl != null ? Math.round(fl * 10) / 10 : null,
+      whp: whpClass ? { class: Math.round(wc!), ...whpClass } : null,
+      wui: w?.wui ?? null,
+      source: "USFS Wildfire Risk to Communities / WHP; SILVIS WUI",
+      errors,
+    },
+    urls,
+  };
+}
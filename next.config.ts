@@ -1,7 +1,12 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // fichiers de données lus à l’exécution (fs) : à embarquer avec les routes qui les lisent
+  // (téléchargés par `prebuild` ; absents → `historyError` à l’exécution, le build continue)
+  outputFileTracingIncludes: {
+    "/api/hurricane/risk": ["./data/hurdat2/**"],
+    "/api/tornado/risk": ["./data/spc/**"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,48 @@
+// scripts/update-hurdat2.mjs — télécharge les derniers fichiers HURDAT2 publiés par le NHC dans data/hurdat2/
+// usage : npm run data:hurdat2   (HURDAT2_INDEX_URL / HURDAT2_DIR pour un miroir ou un autre dossier)
+//   --if-missing : ne télécharge que les fichiers absents ; --optional : échec = avertissement (prebuild)
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const INDEX = (process.env.HURDAT2_INDEX_URL || "https://www.nhc.noaa.gov/data/hurdat/").replace(/\/?$/, "/");
+const DIR = process.env.HURDAT2_DIR || path.join(process.cwd(), "data", "hurdat2");
+const IF_MISSING = process.argv.includes("--if-missing");
+const OPTIONAL = process.argv.includes("--optional");
+
+// nom publié (ex. hurdat2-1851-2023-051124.txt, hurdat2-nepac-1949-2023-050524.txt) → fichier local stable
+const TARGETS = [
+  { out: "hurdat2-atlantic.txt", rx: /hurdat2-1851-\d{4}-\d+\.txt/g },
+  { out: "hurdat2-nepac.txt", rx: /hurdat2-nepac-1949-\d{4}-\d+\.txt/g },
+];
+
+/** Erreur bloquante, ou simple avertissement en mode --optional (l’API renverra alors `historyError`). */
+function fail(msg) {
+  console.error(OPTIONAL ? `warning: ${msg} (hurricane history will be unavailable)` : msg);
+  if (!OPTIONAL) process.exitCode = 1;
+}
+
+const todo = TARGETS.filter(t => !IF_MISSING || !existsSync(path.join(DIR, t.out)));
+const html = todo.length ? await fetch(INDEX).then(r => r.text()).catch(e => (fail(`${INDEX}: ${e.message}`), "")) : "";
+if (html) await mkdir(DIR, { recursive: true });
+
+for (const t of html ? todo : []) {
+  // le plus récent = dernière année couverte puis date de publication (MMDDYY)
+  const key = name => {
+    const m = name.match(/-(\d{4})-(\d{2})(\d{2})(\d{2})\.txt$/);
+    return m ? `${m[1]}${m[4]}${m[2]}${m[3]}` : "";
+  };
+  const latest = [...new Set(html.match(t.rx) ?? [])].sort((a, b) => key(a).localeCompare(key(b))).at(-1);
+  if (!latest) {
+    fail(`No ${t.out} candidate in ${INDEX}`);
+    continue;
+  }
+  const r = await fetch(INDEX + latest).catch(e => ({ ok: false, status: e.message }));
+  if (!r.ok) {
+    fail(`${latest}: HTTP ${r.status}`);
+    continue;
+  }
+  const text = await r.text();
+  await writeFile(path.join(DIR, t.out), text);
+  console.log(`${latest} → ${path.join(DIR, t.out)} (${text.split("\n").length} lines)`);
+}
@@ -0,0 +1,31 @@
+// scripts/update-spc-tornadoes.mjs — télécharge le dernier CSV SPC « actual_tornadoes » dans data/spc/tornadoes.csv
+// usage : npm run data:tornadoes   (SPC_DATA_INDEX_URL / SPC_TORNADO_CSV pour un miroir ou un autre chemin)
+//   --if-missing : rien à faire si le CSV existe ; --optional : échec = avertissement (prebuild)
+import { existsSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+const INDEX = (process.env.SPC_DATA_INDEX_URL || "https://www.spc.noaa.gov/wcm/data/").replace(/\/?$/, "/");
+const OUT = process.env.SPC_TORNADO_CSV || path.join(process.cwd(), "data", "spc", "tornadoes.csv");
+const IF_MISSING = process.argv.includes("--if-missing");
+const OPTIONAL = process.argv.includes("--optional");
+
+/** Erreur bloquante, ou simple avertissement en mode --optional (l’API renverra alors `historyError`). */
+function fail(msg) {
+  console.error(OPTIONAL ? `warning: ${msg} (tornado history will be unavailable)` : msg);
+  process.exit(OPTIONAL ? 0 : 1);
+}
+
+if (IF_MISSING && existsSync(OUT)) process.exit(0);
+
+// nom publié : 1950-2023_actual_tornadoes.csv → le plus récent = dernière année couverte
+const html = await fetch(INDEX).then(r => r.text()).catch(e => fail(`${INDEX}: ${e.message}`));
+const latest = [...new Set(html.match(/1950-\d{4}_actual_tornadoes\.csv/g) ?? [])].sort().at(-1);
+if (!latest) fail(`No *_actual_tornadoes.csv in ${INDEX}`);
+
+const r = await fetch(INDEX + latest).catch(e => fail(`${latest}: ${e.message}`));
+if (!r.ok) fail(`${latest}: HTTP ${r.status}`);
+const text = await r.text();
+await mkdir(path.dirname(OUT), { recursive: true });
+await writeFile(OUT, text);
+console.log(`${latest} → ${OUT} (${text.split("\n").length} lines)`);